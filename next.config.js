@@ -1,5 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  experimental: {
+    // Runs src/instrumentation.ts at server start, which validates the environment configuration
+    instrumentationHook: true,
+  },
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,46 @@
+// Applies pending database migrations: `npm run migrate`, `npm run migrate -- --status` to list
+// them, or `npm run migrate -- --force` to also take over migrations another process left running
+import { loadEnvConfig } from '@next/env';
+import { MongoClient } from 'mongodb';
+
+// Read the same .env files `next` would before the config module validates process.env
+loadEnvConfig(process.cwd(), process.env.NODE_ENV !== 'production');
+
+async function main() {
+  const { config } = await import('../src/config/env');
+  const { getMigrationStatus, runMigrations } = await import('../src/lib/migrations');
+
+  const client = new MongoClient(config.mongodb.uri);
+  await client.connect();
+
+  try {
+    const db = client.db(config.mongodb.db);
+
+    if (process.argv.includes('--status')) {
+      for (const migration of await getMigrationStatus(db)) {
+        const since = migration.applied_at ?? migration.started_at;
+        const at = since ? ` (${since.toISOString()})` : '';
+        console.log(`${migration.status.padEnd(8)} ${migration.id}${at} - ${migration.description}`);
+      }
+      return;
+    }
+
+    const applied = await runMigrations(db, console.log, { force: process.argv.includes('--force') });
+    console.log(applied.length > 0 ? `Applied ${applied.length} migration(s)` : 'No migrations applied');
+
+    const unfinished = (await getMigrationStatus(db)).filter((migration) => migration.status !== 'applied');
+    for (const migration of unfinished) {
+      console.warn(`${migration.id} is ${migration.status}${migration.status === 'running' ? ' (another process may still be applying it; --force takes it over)' : ''}`);
+    }
+    if (unfinished.length > 0) {
+      process.exitCode = 1;
+    }
+  } finally {
+    await client.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
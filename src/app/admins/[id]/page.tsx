@@ -0,0 +1,310 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { PermissionPicker } from '@/components/admin/PermissionPicker';
+import { Select } from '@/components/ui/Select';
+import { useAuth } from '@/contexts/AuthContext';
+import { ROLES } from '@/lib/permissions';
+import { ArrowLeft, Save, X, KeyRound, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface AdminUser {
+  _id: string;
+  username: string;
+  email: string;
+  role: string;
+  permissions: string[];
+  is_active: boolean;
+  last_login: string | null;
+}
+
+const roleOptions = ROLES.map((role) => ({ value: role, label: role }));
+
+export default function AdminEditPage() {
+  const router = useRouter();
+  const params = useParams();
+  const adminId = params.id as string;
+  const { admin: currentAdmin, refresh } = useAuth();
+  const isSelf = currentAdmin?._id === adminId;
+
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isResetting, setIsResetting] = useState(false);
+  const [adminUser, setAdminUser] = useState<AdminUser | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+
+  const [formData, setFormData] = useState({
+    email: '',
+    role: 'editor',
+    permissions: [] as string[],
+    is_active: true,
+  });
+
+  useEffect(() => {
+    const fetchAdmin = async () => {
+      try {
+        const res = await fetch(`/api/admins/${adminId}`);
+        const data = await res.json();
+
+        if (data.success && data.data) {
+          const a = data.data;
+          setAdminUser(a);
+          setFormData({
+            email: a.email || '',
+            role: a.role || 'editor',
+            permissions: a.permissions || [],
+            is_active: a.is_active,
+          });
+        } else {
+          toast.error('Admin not found');
+          router.push('/admins');
+        }
+      } catch (error) {
+        console.error('Error fetching admin:', error);
+        toast.error('Failed to load admin');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchAdmin();
+  }, [adminId, router]);
+
+  const handleChange = (field: string, value: string | string[] | boolean) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.email || !formData.role) {
+      toast.error('Please fill in all required fields.');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/admins/${adminId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(formData),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        toast.success(`${adminUser?.username} has been updated successfully!`);
+        if (isSelf) {
+          await refresh();
+        }
+        router.push('/admins');
+      } else {
+        toast.error(result.error || 'Failed to update admin');
+      }
+    } catch (error) {
+      console.error(error);
+      toast.error('Something went wrong while saving the admin.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleResetPassword = async () => {
+    if (newPassword.length < 8) {
+      toast.error('Password must be at least 8 characters.');
+      return;
+    }
+
+    if (!confirm(`Reset the password for "${adminUser?.username}"? They will be logged out everywhere.`)) {
+      return;
+    }
+
+    setIsResetting(true);
+
+    try {
+      const response = await fetch(`/api/admins/${adminId}/password`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ password: newPassword }),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        toast.success('Password reset successfully');
+        setNewPassword('');
+        // Resetting your own password revokes your session too
+        if (isSelf) {
+          await refresh();
+        }
+      } else {
+        toast.error(result.error || 'Failed to reset password');
+      }
+    } catch (error) {
+      console.error(error);
+      toast.error('Something went wrong while resetting the password.');
+    } finally {
+      setIsResetting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <AdminLayout title="Edit Admin" requiredPermission="admins:manage">
+        <div className="flex flex-col items-center justify-center h-64 gap-4">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-teal-500"></div>
+          <p className="text-slate-500">Loading admin...</p>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  if (!adminUser) {
+    return (
+      <AdminLayout title="Admin Not Found" requiredPermission="admins:manage">
+        <div className="text-center py-16">
+          <Users className="w-16 h-16 text-slate-300 mx-auto mb-4" />
+          <p className="text-slate-500 mb-6">Admin not found</p>
+          <button
+            onClick={() => router.push('/admins')}
+            className="h-11 px-6 bg-white border-2 border-teal-500 text-teal-600 rounded-xl font-semibold hover:bg-teal-50 hover:border-teal-600 transition-all"
+          >
+            Back to Admins
+          </button>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout title="Edit Admin" requiredPermission="admins:manage">
+      <form onSubmit={handleSubmit} className="space-y-4 md:space-y-5">
+        {/* Header Actions */}
+        <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-sm">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3 min-w-0">
+              <button
+                type="button"
+                onClick={() => router.push('/admins')}
+                className="p-2.5 hover:bg-slate-100 rounded-xl transition-colors flex-shrink-0"
+              >
+                <ArrowLeft className="w-5 h-5 text-slate-600" />
+              </button>
+              <div className="min-w-0">
+                <h2 className="text-lg font-bold text-slate-800 truncate">{adminUser.username}</h2>
+              </div>
+            </div>
+
+            <div className="flex gap-3 flex-shrink-0">
+              <button
+                type="button"
+                onClick={() => router.push('/admins')}
+                className="h-10 px-4 border border-slate-200 text-slate-600 rounded-xl font-medium hover:bg-slate-50 transition-colors flex items-center gap-2"
+              >
+                <X className="w-4 h-4" />
+                <span className="hidden sm:inline">Discard</span>
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="h-10 px-4 bg-white border-2 border-teal-500 text-teal-600 rounded-xl font-semibold hover:bg-teal-50 hover:border-teal-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                <Save className="w-4 h-4" />
+                {isSubmitting ? 'Saving...' : 'Save Changes'}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl border border-slate-200 p-4 md:p-6 shadow-sm">
+          <h3 className="text-base font-bold text-slate-800 mb-5">Account Details</h3>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="block text-sm font-semibold text-slate-700">
+                  Email <span className="text-rose-500">*</span>
+                </label>
+                <input
+                  type="email"
+                  placeholder="Enter email"
+                  value={formData.email}
+                  onChange={(e) => handleChange('email', e.target.value)}
+                  className="w-full h-11 px-4 rounded-xl border-2 border-slate-200 bg-white text-slate-800 placeholder:text-slate-400 focus:outline-none focus:border-teal-500 transition-all"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-semibold text-slate-700">
+                  Role <span className="text-rose-500">*</span>
+                </label>
+                <Select
+                  value={formData.role}
+                  onValueChange={(v) => handleChange('role', v)}
+                  options={roleOptions}
+                  placeholder="Select role"
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-3 text-sm font-semibold text-slate-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={formData.is_active}
+                disabled={isSelf}
+                onChange={(e) => handleChange('is_active', e.target.checked)}
+                className="w-4 h-4 accent-teal-600"
+              />
+              Account is active
+            </label>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl border border-slate-200 p-4 md:p-6 shadow-sm">
+          <h3 className="text-base font-bold text-slate-800 mb-1">Additional Permissions</h3>
+          <p className="text-sm text-slate-500 mb-5">
+            Granted on top of the permissions that come with the selected role.
+          </p>
+          <PermissionPicker
+            role={formData.role}
+            permissions={formData.permissions}
+            onChange={(permissions) => handleChange('permissions', permissions)}
+          />
+        </div>
+
+        {/* Password Reset */}
+        <div className="bg-white rounded-2xl border border-slate-200 p-4 md:p-6 shadow-sm">
+          <h3 className="text-base font-bold text-slate-800 mb-1">Reset Password</h3>
+          <p className="text-sm text-slate-500 mb-5">
+            Sets a new password and signs this admin out of every active session.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <input
+              type="password"
+              placeholder="New password (at least 8 characters)"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              className="flex-1 h-11 px-4 rounded-xl border-2 border-slate-200 bg-white text-slate-800 placeholder:text-slate-400 focus:outline-none focus:border-teal-500 transition-all"
+            />
+            <button
+              type="button"
+              onClick={handleResetPassword}
+              disabled={isResetting || !newPassword}
+              className="h-11 px-5 bg-white border-2 border-rose-500 text-rose-600 rounded-xl font-semibold hover:bg-rose-50 hover:border-rose-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              <KeyRound className="w-4 h-4" />
+              {isResetting ? 'Resetting...' : 'Reset Password'}
+            </button>
+          </div>
+        </div>
+      </form>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { PermissionPicker } from '@/components/admin/PermissionPicker';
+import { Select } from '@/components/ui/Select';
+import { ROLES } from '@/lib/permissions';
+import { ArrowLeft, Save, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const roleOptions = ROLES.map((role) => ({ value: role, label: role }));
+
+export default function AdminNewPage() {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const [formData, setFormData] = useState({
+    username: '',
+    email: '',
+    password: '',
+    role: 'editor',
+    permissions: [] as string[],
+    is_active: true,
+  });
+
+  const handleChange = (field: string, value: string | string[] | boolean) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Validation
+    if (!formData.username || !formData.email || !formData.password || !formData.role) {
+      toast.error('Please fill in all required fields.');
+      return;
+    }
+
+    if (formData.password.length < 8) {
+      toast.error('Password must be at least 8 characters.');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch('/api/admins', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(formData),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        toast.success(`${formData.username} has been created successfully!`);
+        router.push('/admins');
+      } else {
+        toast.error(result.error || 'Failed to create admin');
+      }
+    } catch (error) {
+      console.error(error);
+      toast.error('Something went wrong while saving the admin.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <AdminLayout title="Add Admin" requiredPermission="admins:manage">
+      <form onSubmit={handleSubmit} className="space-y-4 md:space-y-5">
+        {/* Header Actions */}
+        <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-sm">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={() => router.push('/admins')}
+                className="p-2.5 hover:bg-slate-100 rounded-xl transition-colors"
+              >
+                <ArrowLeft className="w-5 h-5 text-slate-600" />
+              </button>
+              <h2 className="text-lg font-bold text-slate-800">Add New Admin</h2>
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={() => router.push('/admins')}
+                className="h-10 px-4 border border-slate-200 text-slate-600 rounded-xl font-medium hover:bg-slate-50 transition-colors flex items-center gap-2"
+              >
+                <X className="w-4 h-4" />
+                <span className="hidden sm:inline">Discard</span>
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="h-10 px-4 bg-white border-2 border-teal-500 text-teal-600 rounded-xl font-semibold hover:bg-teal-50 hover:border-teal-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                <Save className="w-4 h-4" />
+                {isSubmitting ? 'Creating...' : 'Add Admin'}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl border border-slate-200 p-4 md:p-6 shadow-sm">
+          <h3 className="text-base font-bold text-slate-800 mb-5">Account Details</h3>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="block text-sm font-semibold text-slate-700">
+                  Username <span className="text-rose-500">*</span>
+                </label>
+                <input
+                  placeholder="Enter username"
+                  value={formData.username}
+                  onChange={(e) => handleChange('username', e.target.value)}
+                  className="w-full h-11 px-4 rounded-xl border-2 border-slate-200 bg-white text-slate-800 placeholder:text-slate-400 focus:outline-none focus:border-teal-500 transition-all"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-semibold text-slate-700">
+                  Email <span className="text-rose-500">*</span>
+                </label>
+                <input
+                  type="email"
+                  placeholder="Enter email"
+                  value={formData.email}
+                  onChange={(e) => handleChange('email', e.target.value)}
+                  className="w-full h-11 px-4 rounded-xl border-2 border-slate-200 bg-white text-slate-800 placeholder:text-slate-400 focus:outline-none focus:border-teal-500 transition-all"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="block text-sm font-semibold text-slate-700">
+                  Password <span className="text-rose-500">*</span>
+                </label>
+                <input
+                  type="password"
+                  placeholder="At least 8 characters"
+                  value={formData.password}
+                  onChange={(e) => handleChange('password', e.target.value)}
+                  className="w-full h-11 px-4 rounded-xl border-2 border-slate-200 bg-white text-slate-800 placeholder:text-slate-400 focus:outline-none focus:border-teal-500 transition-all"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-semibold text-slate-700">
+                  Role <span className="text-rose-500">*</span>
+                </label>
+                <Select
+                  value={formData.role}
+                  onValueChange={(v) => handleChange('role', v)}
+                  options={roleOptions}
+                  placeholder="Select role"
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-3 text-sm font-semibold text-slate-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={formData.is_active}
+                onChange={(e) => handleChange('is_active', e.target.checked)}
+                className="w-4 h-4 accent-teal-600"
+              />
+              Account is active
+            </label>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl border border-slate-200 p-4 md:p-6 shadow-sm">
+          <h3 className="text-base font-bold text-slate-800 mb-1">Additional Permissions</h3>
+          <p className="text-sm text-slate-500 mb-5">
+            Granted on top of the permissions that come with the selected role.
+          </p>
+          <PermissionPicker
+            role={formData.role}
+            permissions={formData.permissions}
+            onChange={(permissions) => handleChange('permissions', permissions)}
+          />
+        </div>
+      </form>
+    </AdminLayout>
+  );
+}
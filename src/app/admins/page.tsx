@@ -0,0 +1,183 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { useAuth } from '@/contexts/AuthContext';
+import { Plus, Edit, Trash2, Users, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface AdminUser {
+  _id: string;
+  username: string;
+  email: string;
+  role: string;
+  permissions: string[];
+  is_active: boolean;
+  last_login: string | null;
+  created_at: string;
+}
+
+const formatDate = (value: string | null) => {
+  if (!value) return 'Never';
+  return new Date(value).toLocaleString();
+};
+
+export default function AdminListPage() {
+  const router = useRouter();
+  const { admin: currentAdmin } = useAuth();
+  const [admins, setAdmins] = useState<AdminUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [deletingAdminId, setDeletingAdminId] = useState<string | null>(null);
+
+  const fetchAdmins = useCallback(async () => {
+    try {
+      const res = await fetch('/api/admins');
+      const data = await res.json();
+      if (data.success) {
+        setAdmins(data.data);
+      } else {
+        toast.error(data.error || 'Failed to load admins');
+      }
+    } catch (error) {
+      console.error('Error fetching admins:', error);
+      toast.error('Failed to load admins');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAdmins();
+  }, [fetchAdmins]);
+
+  const handleDelete = async (adminId: string, username: string) => {
+    if (!confirm(`Are you sure you want to delete "${username}"?`)) {
+      return;
+    }
+
+    setDeletingAdminId(adminId);
+    try {
+      const res = await fetch(`/api/admins/${adminId}`, { method: 'DELETE' });
+      const data = await res.json();
+
+      if (data.success) {
+        toast.success('Admin deleted successfully');
+        fetchAdmins();
+      } else {
+        toast.error(data.error || 'Failed to delete admin');
+      }
+    } catch (error) {
+      console.error('Error deleting admin:', error);
+      toast.error('Failed to delete admin');
+    } finally {
+      setDeletingAdminId(null);
+    }
+  };
+
+  return (
+    <AdminLayout title="Admin Users" requiredPermission="admins:manage">
+      <div className="space-y-4 md:space-y-5">
+        {/* Actions Bar */}
+        <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-sm flex items-center justify-between gap-3">
+          <div>
+            <p className="text-slate-500 text-sm font-medium">Admin Accounts</p>
+            <p className="text-2xl font-bold text-slate-800">{admins.length}</p>
+          </div>
+          <button
+            onClick={() => router.push('/admins/new')}
+            className="h-11 px-5 bg-white border-2 border-teal-500 text-teal-600 rounded-xl font-semibold hover:bg-teal-50 hover:border-teal-600 transition-all flex items-center justify-center gap-2"
+          >
+            <Plus className="w-5 h-5" />
+            <span>Add Admin</span>
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="w-8 h-8 text-teal-500 animate-spin" />
+          </div>
+        ) : admins.length === 0 ? (
+          <div className="bg-white rounded-2xl border border-slate-200 p-8 text-center">
+            <Users className="w-12 h-12 text-slate-300 mx-auto mb-3" />
+            <p className="text-slate-500">No admins found</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-2xl border border-slate-200 overflow-hidden shadow-sm">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-slate-50 border-b border-slate-200">
+                  <tr>
+                    <th className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4">
+                      Admin
+                    </th>
+                    <th className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4">
+                      Role
+                    </th>
+                    <th className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4">
+                      Status
+                    </th>
+                    <th className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4">
+                      Last Login
+                    </th>
+                    <th className="text-right text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {admins.map((admin) => (
+                    <tr key={admin._id} className="hover:bg-slate-50 transition-colors">
+                      <td className="px-6 py-4">
+                        <p className="font-semibold text-slate-800">{admin.username}</p>
+                        <p className="text-slate-500 text-sm">{admin.email}</p>
+                      </td>
+                      <td className="px-6 py-4 text-slate-700 font-medium">{admin.role}</td>
+                      <td className="px-6 py-4">
+                        <span
+                          className={`inline-flex px-2.5 py-1 rounded-lg text-xs font-semibold border ${
+                            admin.is_active
+                              ? 'border-teal-500 text-teal-600'
+                              : 'border-slate-300 text-slate-500'
+                          }`}
+                        >
+                          {admin.is_active ? 'Active' : 'Inactive'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-slate-500 text-sm">{formatDate(admin.last_login)}</td>
+                      <td className="px-6 py-4">
+                        <div className="flex items-center justify-end gap-2">
+                          <button
+                            onClick={() => router.push(`/admins/${admin._id}`)}
+                            className="p-2.5 bg-white border-2 border-teal-500 text-teal-600 rounded-lg hover:bg-teal-50 transition-colors flex items-center justify-center"
+                            title="Edit"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </button>
+                          {admin._id !== currentAdmin?._id && (
+                            <button
+                              onClick={() => handleDelete(admin._id, admin.username)}
+                              disabled={deletingAdminId === admin._id}
+                              className="p-2.5 bg-white border-2 border-rose-500 text-rose-600 rounded-lg hover:bg-rose-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+                              title="Delete"
+                            >
+                              {deletingAdminId === admin._id ? (
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                              ) : (
+                                <Trash2 className="w-4 h-4" />
+                              )}
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminService } from '@/lib/admin-service';
+import { withPermission } from '@/lib/api-guard';
+import { AuditService } from '@/lib/audit-service';
+import { readJsonBody } from '@/lib/validation';
+
+export const POST = withPermission<{ adminId: string }>('admins:manage', async (
+  request: NextRequest,
+  { params },
+  currentAdmin
+) => {
+  try {
+    const { adminId } = params;
+    const { body, error } = await readJsonBody(request);
+    if (error) return error;
+    const { password } = body;
+
+    if (typeof password !== 'string' || password.length < 8) {
+      return NextResponse.json(
+        { success: false, error: 'Password must be at least 8 characters' },
+        { status: 400 }
+      );
+    }
+
+    const admin = await AdminService.getAdminById(adminId);
+    if (!admin) {
+      return NextResponse.json(
+        { success: false, error: 'Admin not found' },
+        { status: 404 }
+      );
+    }
+
+    await AdminService.resetPassword(adminId, password);
+
+    // The password itself is never logged
+    await AuditService.log(request, currentAdmin, {
+      action: 'admin.password_reset',
+      target_type: 'admin',
+      target_id: adminId,
+      after: { username: admin.username }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Password reset successfully'
+    });
+  } catch (error) {
+    console.error('Error resetting password:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to reset password' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminService } from '@/lib/admin-service';
+import { withPermission } from '@/lib/api-guard';
+import { AuditService } from '@/lib/audit-service';
+import { hasPermission, isPermission, isRole } from '@/lib/permissions';
+import { readJsonBody } from '@/lib/validation';
+import { AdminUpdateData } from '@/types/product';
+
+export const GET = withPermission<{ adminId: string }>('admins:manage', async (
+  request: NextRequest,
+  { params }
+) => {
+  try {
+    const { adminId } = params;
+    const admin = await AdminService.getAdminById(adminId);
+
+    if (!admin) {
+      return NextResponse.json(
+        { success: false, error: 'Admin not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: admin });
+  } catch (error) {
+    console.error('Error fetching admin:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch admin' },
+      { status: 500 }
+    );
+  }
+});
+
+export const PUT = withPermission<{ adminId: string }>('admins:manage', async (
+  request: NextRequest,
+  { params },
+  currentAdmin
+) => {
+  try {
+    const { adminId } = params;
+    const { body, error } = await readJsonBody(request);
+    if (error) return error;
+
+    const existing = await AdminService.getAdminById(adminId);
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Admin not found' },
+        { status: 404 }
+      );
+    }
+
+    // Only the editable profile fields are accepted; username and password have their own flows
+    const updateData: AdminUpdateData = {};
+
+    if (body.email !== undefined) {
+      if (typeof body.email !== 'string' || !body.email.trim()) {
+        return NextResponse.json(
+          { success: false, error: 'Email is required' },
+          { status: 400 }
+        );
+      }
+      updateData.email = body.email.trim();
+    }
+
+    if (body.role !== undefined) {
+      if (typeof body.role !== 'string' || !isRole(body.role)) {
+        return NextResponse.json(
+          { success: false, error: `Unknown role: ${body.role}` },
+          { status: 400 }
+        );
+      }
+      updateData.role = body.role;
+    }
+
+    if (body.permissions !== undefined) {
+      if (!Array.isArray(body.permissions) ||
+        !body.permissions.every((p: unknown) => typeof p === 'string' && isPermission(p))) {
+        return NextResponse.json(
+          { success: false, error: 'Unknown permission in permissions list' },
+          { status: 400 }
+        );
+      }
+      updateData.permissions = body.permissions;
+    }
+
+    if (body.is_active !== undefined) {
+      updateData.is_active = Boolean(body.is_active);
+    }
+
+    // Admins cannot lock themselves out of admin management
+    if (adminId === currentAdmin._id) {
+      const updated = { ...existing, ...updateData };
+      if (!updated.is_active || !hasPermission(updated, 'admins:manage')) {
+        return NextResponse.json(
+          { success: false, error: 'You cannot deactivate yourself or remove your own admins:manage permission' },
+          { status: 400 }
+        );
+      }
+    }
+
+    await AdminService.updateAdmin(adminId, updateData);
+
+    const before: Record<string, unknown> = {};
+    for (const field of Object.keys(updateData) as (keyof AdminUpdateData)[]) {
+      before[field] = existing[field];
+    }
+
+    await AuditService.log(request, currentAdmin, {
+      action: 'admin.update',
+      target_type: 'admin',
+      target_id: adminId,
+      before,
+      after: { ...updateData }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Admin updated successfully'
+    });
+  } catch (error) {
+    console.error('Error updating admin:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update admin' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withPermission<{ adminId: string }>('admins:manage', async (
+  request: NextRequest,
+  { params },
+  currentAdmin
+) => {
+  try {
+    const { adminId } = params;
+
+    if (adminId === currentAdmin._id) {
+      return NextResponse.json(
+        { success: false, error: 'You cannot delete your own account' },
+        { status: 400 }
+      );
+    }
+
+    const admin = await AdminService.getAdminById(adminId);
+    if (!admin) {
+      return NextResponse.json(
+        { success: false, error: 'Admin not found' },
+        { status: 404 }
+      );
+    }
+
+    await AdminService.deleteAdmin(adminId);
+
+    await AuditService.log(request, currentAdmin, {
+      action: 'admin.delete',
+      target_type: 'admin',
+      target_id: adminId,
+      before: { username: admin.username, role: admin.role }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Admin deleted successfully'
+    });
+  } catch (error) {
+    console.error('Error deleting admin:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete admin' },
+      { status: 500 }
+    );
+  }
+});
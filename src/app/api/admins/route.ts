@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminService } from '@/lib/admin-service';
+import { withPermission } from '@/lib/api-guard';
+import { AuditService } from '@/lib/audit-service';
+import { isPermission, isRole } from '@/lib/permissions';
+import { readJsonBody } from '@/lib/validation';
+
+export const GET = withPermission('admins:manage', async () => {
+  try {
+    const admins = await AdminService.getAllAdmins();
+    return NextResponse.json({ success: true, data: admins });
+  } catch (error) {
+    console.error('Error fetching admins:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch admins' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withPermission('admins:manage', async (request: NextRequest, _context, currentAdmin) => {
+  try {
+    const { body, error } = await readJsonBody(request);
+    if (error) return error;
+    const username = typeof body.username === 'string' ? body.username.trim() : '';
+    const password = typeof body.password === 'string' ? body.password : '';
+    const email = typeof body.email === 'string' ? body.email.trim() : '';
+    const role = typeof body.role === 'string' ? body.role : '';
+    const permissions: unknown[] = Array.isArray(body.permissions) ? body.permissions : [];
+
+    // Validate required fields
+    if (!username || !password || !email || !role) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    if (username.length < 3) {
+      return NextResponse.json(
+        { success: false, error: 'Username must be at least 3 characters' },
+        { status: 400 }
+      );
+    }
+
+    if (password.length < 8) {
+      return NextResponse.json(
+        { success: false, error: 'Password must be at least 8 characters' },
+        { status: 400 }
+      );
+    }
+
+    if (!isRole(role)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown role: ${role}` },
+        { status: 400 }
+      );
+    }
+
+    if (!permissions.every((p) => typeof p === 'string' && isPermission(p))) {
+      return NextResponse.json(
+        { success: false, error: 'Unknown permission in permissions list' },
+        { status: 400 }
+      );
+    }
+
+    if (await AdminService.getAdminByUsername(username)) {
+      return NextResponse.json(
+        { success: false, error: 'Username is already taken' },
+        { status: 409 }
+      );
+    }
+
+    // The check above is only a friendlier early answer; a concurrent create can still win the race
+    const admin = await AdminService.createAdmin({
+      username,
+      password,
+      email,
+      role,
+      permissions: permissions as string[],
+      is_active: body.is_active !== false
+    });
+    if (!admin) {
+      return NextResponse.json(
+        { success: false, error: 'Username is already taken' },
+        { status: 409 }
+      );
+    }
+
+    await AuditService.log(request, currentAdmin, {
+      action: 'admin.create',
+      target_type: 'admin',
+      target_id: admin._id,
+      after: { username: admin.username, role: admin.role, permissions: admin.permissions, is_active: admin.is_active }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: admin,
+      message: 'Admin created successfully'
+    });
+  } catch (error) {
+    console.error('Error creating admin:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create admin' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuditService, AuditFilters } from '@/lib/audit-service';
+import { isAuditAction } from '@/lib/audit-actions';
+import { withPermission } from '@/lib/api-guard';
+import { AuditTargetType } from '@/types/product';
+
+const TARGET_TYPES: AuditTargetType[] = ['product', 'category', 'subcategory', 'admin', 'auth'];
+
+function parseDate(value: string | null, endOfDay = false): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return undefined;
+  // A bare date ("2024-05-01") as the upper bound should include that whole day
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+export const GET = withPermission('audit:read', async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const pageNum = Math.max(parseInt(searchParams.get('page') || '') || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(searchParams.get('limit') || '') || 25, 1), 100);
+
+    const action = searchParams.get('action') || '';
+    if (action && !isAuditAction(action) && !TARGET_TYPES.includes(action as AuditTargetType)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown action: ${action}` },
+        { status: 400 }
+      );
+    }
+
+    const filters: AuditFilters = {
+      admin_id: searchParams.get('admin_id') || undefined,
+      action: action || undefined,
+      from: parseDate(searchParams.get('from')),
+      to: parseDate(searchParams.get('to'), true),
+    };
+
+    const [result, actors] = await Promise.all([
+      AuditService.getEntries(pageNum, limitNum, filters),
+      AuditService.getActors(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: result.entries,
+      admins: actors,
+      pagination: {
+        total: result.total,
+        page: result.page,
+        limit: result.limit,
+        totalPages: result.totalPages
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch audit log' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthService } from '@/lib/auth-service';
+import { AuditService } from '@/lib/audit-service';
+import { config } from '@/config/env';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const username: unknown = body?.username;
+    const password: unknown = body?.password;
+
+    // Anything but plain strings would reach the admins query as an operator ({"$gt": ""})
+    if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+      return NextResponse.json(
+        { success: false, error: 'Username and password are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await AuthService.login(username, password);
+
+    if (!result) {
+      await AuditService.log(request, null, {
+        action: 'auth.login_failed',
+        target_type: 'auth',
+        target_id: null,
+        after: { username: String(username).slice(0, 100) }
+      });
+
+      return NextResponse.json(
+        { success: false, error: 'Invalid username or password' },
+        { status: 401 }
+      );
+    }
+
+    await AuditService.log(request, result.admin, {
+      action: 'auth.login',
+      target_type: 'auth',
+      target_id: result.admin._id
+    });
+
+    const response = NextResponse.json({ success: true, data: result.admin });
+    response.cookies.set(config.auth.sessionCookieName, result.token, {
+      httpOnly: true,
+      secure: config.auth.secureCookies,
+      sameSite: 'lax',
+      path: '/',
+      expires: result.expiresAt
+    });
+
+    return response;
+  } catch (error) {
+    console.error('Error logging in:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to log in' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthService } from '@/lib/auth-service';
+import { AuditService } from '@/lib/audit-service';
+import { config } from '@/config/env';
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get(config.auth.sessionCookieName)?.value;
+    if (token) {
+      const admin = await AuthService.getAdminBySessionToken(token);
+      await AuthService.destroySession(token);
+
+      if (admin) {
+        await AuditService.log(request, admin, {
+          action: 'auth.logout',
+          target_type: 'auth',
+          target_id: admin._id
+        });
+      }
+    }
+
+    const response = NextResponse.json({ success: true, message: 'Logged out successfully' });
+    response.cookies.delete(config.auth.sessionCookieName);
+
+    return response;
+  } catch (error) {
+    console.error('Error logging out:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to log out' },
+      { status: 500 }
+    );
+  }
+}
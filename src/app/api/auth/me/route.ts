@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthService } from '@/lib/auth-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await AuthService.getAdminFromRequest(request);
+
+    if (!admin) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: admin });
+  } catch (error) {
+    console.error('Error fetching current admin:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch current admin' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CategoryService } from '@/lib/category-service';
+import { withPermission } from '@/lib/api-guard';
+
+// Continue moving a renamed category's product images; repeat while `remaining` is above 0
+export const POST = withPermission<{ categoryId: string }>('taxonomy:write', async (
+  request: NextRequest,
+  { params }
+) => {
+  try {
+    const { categoryId } = params;
+
+    const category = await CategoryService.getCategoryById(categoryId);
+    if (!category) {
+      return NextResponse.json(
+        { success: false, error: 'Category not found' },
+        { status: 404 }
+      );
+    }
+
+    const imageMove = await CategoryService.moveCategoryImages(categoryId, category.category_name);
+
+    return NextResponse.json({
+      success: true,
+      data: imageMove,
+      message: imageMove.failed.length > 0
+        ? `${imageMove.failed.length} image(s) could not be moved`
+        : imageMove.remaining > 0
+          ? `Images of ${imageMove.remaining} product(s) are still to be moved`
+          : 'Category images moved successfully'
+    });
+  } catch (error) {
+    console.error('Error moving category images:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to move category images' },
+      { status: 500 }
+    );
+  }
+});
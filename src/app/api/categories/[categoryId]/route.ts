@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CategoryService } from '@/lib/category-service';
+import { withPermission } from '@/lib/api-guard';
+import { AuditService } from '@/lib/audit-service';
+import { categorySchema, readJsonBody, validatePayload, validationErrorResponse } from '@/lib/validation';
+
+export const GET = withPermission<{ categoryId: string }>('products:read', async (
+  request: NextRequest,
+  { params }
+) => {
+  try {
+    const { categoryId } = params;
+    const category = await CategoryService.getCategoryById(categoryId);
+
+    if (!category) {
+      return NextResponse.json(
+        { success: false, error: 'Category not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: category });
+  } catch (error) {
+    console.error('Error fetching category:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch category' },
+      { status: 500 }
+    );
+  }
+});
+
+export const PUT = withPermission<{ categoryId: string }>('taxonomy:write', async (
+  request: NextRequest,
+  { params },
+  admin
+) => {
+  try {
+    const { categoryId } = params;
+    const { body, error } = await readJsonBody(request);
+    if (error) return error;
+
+    const validation = validatePayload<{ category_name: string }>(body, categorySchema);
+    if (!validation.valid) {
+      return validationErrorResponse(validation.errors);
+    }
+    const categoryName = validation.data.category_name;
+
+    const category = await CategoryService.getCategoryById(categoryId);
+    if (!category) {
+      return NextResponse.json(
+        { success: false, error: 'Category not found' },
+        { status: 404 }
+      );
+    }
+
+    const existing = await CategoryService.getCategoryByName(categoryName);
+    if (existing && existing._id !== categoryId) {
+      return NextResponse.json(
+        { success: false, error: 'A category with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    const imageMove = await CategoryService.renameCategory(categoryId, categoryName);
+
+    await AuditService.log(request, admin, {
+      action: 'category.rename',
+      target_type: 'category',
+      target_id: categoryId,
+      before: { category_name: category.category_name },
+      after: { category_name: categoryName }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: imageMove,
+      message: imageMove.failed.length > 0
+        ? `Category renamed, but ${imageMove.failed.length} image(s) could not be moved`
+        : imageMove.remaining > 0
+          ? `Category renamed; images of ${imageMove.remaining} product(s) are still to be moved`
+          : 'Category updated successfully'
+    });
+  } catch (error) {
+    console.error('Error updating category:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update category' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withPermission<{ categoryId: string }>('taxonomy:write', async (
+  request: NextRequest,
+  { params },
+  admin
+) => {
+  try {
+    const { categoryId } = params;
+
+    const category = await CategoryService.getCategoryById(categoryId);
+    if (!category) {
+      return NextResponse.json(
+        { success: false, error: 'Category not found' },
+        { status: 404 }
+      );
+    }
+
+    // Guard against drifted counters by also checking the products collection; trashed products
+    // count too, since restoring them needs the category
+    const productCount = await CategoryService.countProductsInCategory(categoryId);
+    if (category.product_count > 0 || productCount > 0) {
+      return NextResponse.json(
+        { success: false, error: 'Cannot delete a category that still has products (including products in the trash)' },
+        { status: 409 }
+      );
+    }
+
+    await CategoryService.deleteCategory(categoryId);
+
+    await AuditService.log(request, admin, {
+      action: 'category.delete',
+      target_type: 'category',
+      target_id: categoryId,
+      before: { category_name: category.category_name }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Category deleted successfully'
+    });
+  } catch (error) {
+    console.error('Error deleting category:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete category' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ProductService } from '@/lib/product-service';
+import { CategoryService } from '@/lib/category-service';
+import { withPermission } from '@/lib/api-guard';
+import { AuditService } from '@/lib/audit-service';
+import { categorySchema, readJsonBody, validatePayload, validationErrorResponse } from '@/lib/validation';
 
-export async function GET() {
+export const GET = withPermission('products:read', async () => {
   try {
     const categories = await ProductService.getAllCategories();
     return NextResponse.json({ success: true, data: categories });
@@ -12,4 +16,45 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
+
+export const POST = withPermission('taxonomy:write', async (request: NextRequest, _context, admin) => {
+  try {
+    const { body, error } = await readJsonBody(request);
+    if (error) return error;
+
+    const validation = validatePayload<{ category_name: string }>(body, categorySchema);
+    if (!validation.valid) {
+      return validationErrorResponse(validation.errors);
+    }
+    const categoryName = validation.data.category_name;
+
+    if (await CategoryService.getCategoryByName(categoryName)) {
+      return NextResponse.json(
+        { success: false, error: 'A category with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    const category = await CategoryService.createCategory(categoryName);
+
+    await AuditService.log(request, admin, {
+      action: 'category.create',
+      target_type: 'category',
+      target_id: category._id,
+      after: { category_name: categoryName }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: category,
+      message: 'Category created successfully'
+    });
+  } catch (error) {
+    console.error('Error creating category:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create category' },
+      { status: 500 }
+    );
+  }
+});
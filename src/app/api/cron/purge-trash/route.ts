@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ProductService } from '@/lib/product-service';
+import { AuditService } from '@/lib/audit-service';
+import { config } from '@/config/env';
+
+// Invoked by the Vercel cron in vercel.json; not tied to an admin session
+export async function GET(request: NextRequest) {
+  const { cronSecret, retentionDays } = config.trash;
+
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  if (retentionDays <= 0) {
+    return NextResponse.json({
+      success: true,
+      data: { purged: [], failed: [] },
+      message: 'Scheduled purge is disabled'
+    });
+  }
+
+  try {
+    const result = await ProductService.purgeExpiredProducts(retentionDays);
+    if (result.failed.length > 0) {
+      console.error('Failed to delete images during scheduled purge:', result.failed);
+    }
+
+    for (const productId of result.purged) {
+      await AuditService.log(request, null, {
+        action: 'product.purge',
+        target_type: 'product',
+        target_id: productId,
+        after: { scheduled: true }
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `Purged ${result.purged.length} product(s) trashed more than ${retentionDays} days ago`
+    });
+  } catch (error) {
+    console.error('Error purging trash:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to purge trash' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ReconcileService } from '@/lib/reconcile-service';
+import { AuditService } from '@/lib/audit-service';
+import { withPermission } from '@/lib/api-guard';
+
+// Reports drift between the category/subcategory counters and the products, without changing anything
+export const GET = withPermission('taxonomy:write', async () => {
+  try {
+    const { report } = await ReconcileService.reconcile();
+    return NextResponse.json({ success: true, data: report });
+  } catch (error) {
+    console.error('Error checking category counters:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to check category counters' },
+      { status: 500 }
+    );
+  }
+});
+
+// Rewrites every category/subcategory whose counters or id lists are wrong and returns the report
+export const POST = withPermission('taxonomy:write', async (request: NextRequest, _context, admin) => {
+  try {
+    const { report, repairs } = await ReconcileService.reconcile(true);
+
+    await AuditService.logMany(request, admin, repairs.map((repair) => ({
+      action: repair.target_type === 'category' ? 'category.reconcile' as const : 'subcategory.reconcile' as const,
+      target_type: repair.target_type,
+      target_id: repair.target_id,
+      before: repair.before,
+      after: repair.after
+    })));
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+      message: report.repaired > 0
+        ? `Repaired ${report.repaired} category/subcategory record(s)`
+        : 'Nothing needed repairing'
+    });
+  } catch (error) {
+    console.error('Error repairing category counters:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to repair category counters' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ProductService } from '@/lib/product-service';
+import { RevisionService } from '@/lib/revision-service';
+import { withPermission } from '@/lib/api-guard';
+import { AuditService } from '@/lib/audit-service';
+import { validateProductTaxonomy } from '@/lib/validation';
+import { canTransitionStatus } from '@/lib/product-status';
+import { Product } from '@/types/product';
+
+type RevisionParams = { productId: string; revision: string };
+
+// Restore a product to the state recorded in a revision
+export const POST = withPermission<RevisionParams>('products:write', async (
+  request: NextRequest,
+  { params },
+  admin
+) => {
+  try {
+    const { productId } = params;
+
+    const product = await ProductService.getProductById(productId);
+    if (!product) {
+      return NextResponse.json(
+        { success: false, error: 'Product not found' },
+        { status: 404 }
+      );
+    }
+
+    const revision = await RevisionService.getRevision(productId, parseInt(params.revision));
+    if (!revision) {
+      return NextResponse.json(
+        { success: false, error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    // Images removed by an edit are deleted from Cloudinary, so only the other fields are restored
+    const fields: Partial<Product> = { ...revision.snapshot };
+    delete fields.image_urls;
+    // A status the product can no longer move back to (e.g. draft after publishing) is kept as is
+    if (!canTransitionStatus(product.status, revision.snapshot.status)) {
+      delete fields.status;
+    }
+
+    const { errors } = await validateProductTaxonomy(
+      revision.snapshot.category_id,
+      revision.snapshot.subcategory_id
+    );
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: 'The category or subcategory of this revision no longer exists' },
+        { status: 409 }
+      );
+    }
+
+    const restored = await ProductService.updateProduct(productId, fields, admin);
+
+    await AuditService.log(request, admin, {
+      action: 'product.revision_restore',
+      target_type: 'product',
+      target_id: productId,
+      ...(restored ? AuditService.fromChanges(restored.changes) : {})
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: revision.revision === 0
+        ? 'Product restored to its original state'
+        : `Product restored to revision ${revision.revision}`
+    });
+  } catch (error) {
+    console.error('Error restoring product revision:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to restore revision' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RevisionService } from '@/lib/revision-service';
+import { withPermission } from '@/lib/api-guard';
+
+export const GET = withPermission<{ productId: string }>('products:read', async (
+  request: NextRequest,
+  { params }
+) => {
+  try {
+    const { productId } = params;
+    const revisions = await RevisionService.getRevisions(productId);
+
+    return NextResponse.json({ success: true, data: revisions });
+  } catch (error) {
+    console.error('Error fetching product revisions:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch product history' },
+      { status: 500 }
+    );
+  }
+});
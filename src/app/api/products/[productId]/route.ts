@@ -1,11 +1,47 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ProductService } from '@/lib/product-service';
 import { CloudinaryService } from '@/lib/cloudinary';
+import { CategoryService } from '@/lib/category-service';
+import { SubcategoryService } from '@/lib/subcategory-service';
+import { withPermission } from '@/lib/api-guard';
+import { AuditService } from '@/lib/audit-service';
+import {
+  productUpdateSchema,
+  readJsonBody,
+  validatePayload,
+  validateProductTaxonomy,
+  validationErrorResponse
+} from '@/lib/validation';
+import { canTransitionStatus, statusTransitionError } from '@/lib/product-status';
+import { Product } from '@/types/product';
 
-export async function GET(
+const MAX_IMAGES = 10;
+const IMAGE_SLOT_PATTERN = /^(image_urls|images)\[(\d+)\]$/;
+
+// Multipart edits send every image slot either as `image_urls[i]` (an image the product
+// already has) or `images[i]` (a new file), so the order shown in the editor is preserved
+function readImageSlots(formData: FormData): Array<string | File> {
+  const slots: Array<{ index: number; value: string | File }> = [];
+
+  for (const [key, value] of Array.from(formData.entries())) {
+    const match = key.match(IMAGE_SLOT_PATTERN);
+    if (!match) continue;
+
+    const index = parseInt(match[2]);
+    if (match[1] === 'image_urls' && typeof value === 'string') {
+      slots.push({ index, value });
+    } else if (match[1] === 'images' && value instanceof File) {
+      slots.push({ index, value });
+    }
+  }
+
+  return slots.sort((a, b) => a.index - b.index).map((slot) => slot.value);
+}
+
+export const GET = withPermission<{ productId: string }>('products:read', async (
   request: NextRequest,
-  { params }: { params: { productId: string } }
-) {
+  { params }
+) => {
   try {
     const { productId } = params;
     const product = await ProductService.getProductById(productId);
@@ -25,55 +61,193 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
-export async function PUT(
+export const PUT = withPermission<{ productId: string }>('products:write', async (
   request: NextRequest,
-  { params }: { params: { productId: string } }
-) {
+  { params },
+  admin
+) => {
+  // Tracks what reached Cloudinary so a failed update can remove it again
+  let uploadedImageUrls: string[] = [];
+
   try {
     const { productId } = params;
-    const body = await request.json();
 
-    await ProductService.updateProduct(productId, body);
+    const product = await ProductService.getProductById(productId);
+    if (!product) {
+      return NextResponse.json(
+        { success: false, error: 'Product not found' },
+        { status: 404 }
+      );
+    }
+
+    let payload: Record<string, unknown>;
+    let imageSlots: Array<string | File> | null = null;
+
+    const contentType = request.headers.get('content-type') || '';
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await request.formData();
+      payload = {};
+      for (const [key, value] of Array.from(formData.entries())) {
+        if (!IMAGE_SLOT_PATTERN.test(key)) {
+          payload[key] = value;
+        }
+      }
+      imageSlots = readImageSlots(formData);
+    } else {
+      const { body, error } = await readJsonBody(request);
+      if (error) return error;
+      payload = body;
+    }
+
+    const validation = validatePayload<Partial<Product>>(payload, productUpdateSchema, { partial: true });
+    if (!validation.valid) {
+      return validationErrorResponse(validation.errors);
+    }
+    const updateData = validation.data;
+    if (updateData.image_urls) {
+      imageSlots = updateData.image_urls;
+    }
+
+    if (updateData.status !== undefined && !canTransitionStatus(product.status, updateData.status)) {
+      return validationErrorResponse([
+        { field: 'status', message: statusTransitionError(product.status, updateData.status) }
+      ]);
+    }
+
+    if (updateData.category_id || updateData.subcategory_id) {
+      const { errors: taxonomyErrors } = await validateProductTaxonomy(
+        updateData.category_id || product.category_id,
+        updateData.subcategory_id || product.subcategory_id
+      );
+      if (taxonomyErrors.length > 0) {
+        return validationErrorResponse(taxonomyErrors);
+      }
+    }
+
+    if (imageSlots) {
+      // Only images already stored on the product can be kept by URL; anything new must be uploaded
+      const unknownUrls = imageSlots.filter(
+        (slot) => typeof slot === 'string' && !product.image_urls.includes(slot)
+      );
+      if (unknownUrls.length > 0) {
+        return validationErrorResponse([
+          { field: 'image_urls', message: 'New images must be uploaded as files' }
+        ]);
+      }
+
+      if (imageSlots.length === 0 || imageSlots.length > MAX_IMAGES) {
+        return validationErrorResponse([
+          { field: 'image_urls', message: `A product needs between 1 and ${MAX_IMAGES} images` }
+        ]);
+      }
+
+      const newFiles = imageSlots.filter((slot): slot is File => slot instanceof File);
+      if (newFiles.length > 0) {
+        const [category, subcategory] = await Promise.all([
+          CategoryService.getCategoryById(updateData.category_id || product.category_id),
+          SubcategoryService.getSubcategoryById(updateData.subcategory_id || product.subcategory_id),
+        ]);
+
+        const imageBuffers: Buffer[] = [];
+        for (const file of newFiles) {
+          const arrayBuffer = await file.arrayBuffer();
+          imageBuffers.push(Buffer.from(arrayBuffer));
+        }
+
+        uploadedImageUrls = await CloudinaryService.uploadMultipleImages(
+          imageBuffers,
+          productId,
+          category?.category_name || '',
+          subcategory?.subcategory_name || '',
+          CloudinaryService.getNextImageIndex(product.image_urls)
+        );
+      }
+
+      let uploadIndex = 0;
+      updateData.image_urls = imageSlots.map((slot) =>
+        typeof slot === 'string' ? slot : uploadedImageUrls[uploadIndex++]
+      );
+    }
+
+    const revision = await ProductService.updateProduct(productId, updateData, admin);
+    if (revision) {
+      await AuditService.log(request, admin, {
+        action: 'product.update',
+        target_type: 'product',
+        target_id: productId,
+        ...AuditService.fromChanges(revision.changes)
+      });
+    }
+
+    // Images dropped or replaced in the editor are no longer referenced; the save has already
+    // succeeded, so cleanup failures are only reported back rather than failing the request
+    const newImageUrls = updateData.image_urls;
+    const removedImageUrls = newImageUrls
+      ? product.image_urls.filter((url) => !newImageUrls.includes(url))
+      : [];
+    const cleanupFailures = await CloudinaryService.deleteImagesByUrl(removedImageUrls);
+    if (cleanupFailures.length > 0) {
+      console.error(`Failed to delete removed images for ${productId}:`, cleanupFailures);
+    }
 
     return NextResponse.json({ 
       success: true, 
-      message: 'Product updated successfully' 
+      message: 'Product updated successfully',
+      cleanup_failures: cleanupFailures
     });
   } catch (error) {
     console.error('Error updating product:', error);
+
+    if (uploadedImageUrls.length > 0) {
+      const failed = await CloudinaryService.deleteImagesByUrl(uploadedImageUrls);
+      if (failed.length > 0) {
+        console.error('Failed to roll back uploaded images:', failed);
+      }
+    }
+
     return NextResponse.json(
       { success: false, error: 'Failed to update product' },
       { status: 500 }
     );
   }
-}
+});
 
-export async function DELETE(
+export const DELETE = withPermission<{ productId: string }>('products:delete', async (
   request: NextRequest,
-  { params }: { params: { productId: string } }
-) {
+  { params },
+  admin
+) => {
   try {
     const { productId } = params;
-    
-    // Get product details first to delete images from Cloudinary
+
     const product = await ProductService.getProductById(productId);
-    if (product) {
-      // Delete images from Cloudinary
-      for (const imageUrl of product.image_urls) {
-        const publicId = CloudinaryService.extractPublicIdFromUrl(imageUrl);
-        if (publicId) {
-          await CloudinaryService.deleteImage(publicId);
-        }
-      }
+    if (!product) {
+      return NextResponse.json(
+        { success: false, error: 'Product not found' },
+        { status: 404 }
+      );
     }
 
-    await ProductService.deleteProduct(productId);
+    // Images stay on Cloudinary until the product is purged from the trash
+    if (!await ProductService.trashProduct(product)) {
+      return NextResponse.json(
+        { success: false, error: 'Product not found' },
+        { status: 404 }
+      );
+    }
+
+    await AuditService.log(request, admin, {
+      action: 'product.trash',
+      target_type: 'product',
+      target_id: productId,
+      before: { product_name: product.product_name }
+    });
 
     return NextResponse.json({ 
       success: true, 
-      message: 'Product deleted successfully' 
+      message: 'Product moved to trash' 
     });
   } catch (error) {
     console.error('Error deleting product:', error);
@@ -82,4 +256,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
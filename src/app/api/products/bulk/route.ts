@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ProductService, ProductFilters } from '@/lib/product-service';
+import { AuditService } from '@/lib/audit-service';
+import { withPermission } from '@/lib/api-guard';
+import { hasPermission } from '@/lib/permissions';
+import { readJsonBody, validateProductTaxonomy, validationErrorResponse } from '@/lib/validation';
+import {
+  PRODUCT_STATUSES,
+  PRODUCT_STATUS_LABELS,
+  canTransitionStatus,
+  isProductStatus
+} from '@/lib/product-status';
+import { Product } from '@/types/product';
+
+const BULK_ACTIONS = ['delete', 'set_status', 'move'] as const;
+type BulkAction = typeof BULK_ACTIONS[number];
+
+// Everything happens in one transaction with a revision per product, so keep batches bounded
+const MAX_BULK_PRODUCTS = 500;
+
+function readString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/**
+ * Applies one action to a selection of products. The selection is either `product_ids` (rows
+ * ticked on the current page) or `filters` (every product matching the list's search/category
+ * filters). Body: `{ action: 'delete' | 'set_status' | 'move', product_ids | filters, status?,
+ * category_id?, subcategory_id? }`.
+ */
+export const POST = withPermission('products:write', async (request: NextRequest, _context, admin) => {
+  try {
+    const { body, error } = await readJsonBody(request);
+    if (error) return error;
+    const action = readString(body.action) as BulkAction;
+
+    if (!BULK_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { success: false, error: `action must be one of: ${BULK_ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'delete' && !hasPermission(admin, 'products:delete')) {
+      return NextResponse.json(
+        { success: false, error: 'Missing permission: products:delete' },
+        { status: 403 }
+      );
+    }
+
+    let products: Product[];
+    if (Array.isArray(body.product_ids)) {
+      const productIds = body.product_ids.filter((id: unknown): id is string => typeof id === 'string');
+      if (productIds.length === 0) {
+        return NextResponse.json(
+          { success: false, error: 'Select at least one product' },
+          { status: 400 }
+        );
+      }
+      if (productIds.length > MAX_BULK_PRODUCTS) {
+        return NextResponse.json(
+          { success: false, error: `At most ${MAX_BULK_PRODUCTS} products can be changed at once` },
+          { status: 400 }
+        );
+      }
+      products = await ProductService.getProductsByIds(productIds);
+    } else if (body.filters && typeof body.filters === 'object') {
+      // An unknown status must not fall back to every status, widening the selection
+      const rawStatus = body.filters.status ?? '';
+      const status = readString(rawStatus);
+      if (rawStatus !== '' && !isProductStatus(status)) {
+        return validationErrorResponse([
+          { field: 'filters.status', message: `Status must be one of: ${PRODUCT_STATUSES.join(', ')}` }
+        ]);
+      }
+      const filters: ProductFilters = {
+        search: readString(body.filters.search) || undefined,
+        category_id: readString(body.filters.category_id) || undefined,
+        subcategory_id: readString(body.filters.subcategory_id) || undefined,
+        status: isProductStatus(status) ? status : undefined,
+      };
+      const total = await ProductService.getTotalProductCount(filters);
+      if (total > MAX_BULK_PRODUCTS) {
+        return NextResponse.json(
+          { success: false, error: `${total} products match; at most ${MAX_BULK_PRODUCTS} can be changed at once` },
+          { status: 400 }
+        );
+      }
+      products = await (await ProductService.getProductsCursor(filters)).toArray();
+    } else {
+      return NextResponse.json(
+        { success: false, error: 'Either product_ids or filters is required' },
+        { status: 400 }
+      );
+    }
+
+    if (products.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No matching products found' },
+        { status: 404 }
+      );
+    }
+
+    if (action === 'delete') {
+      // Images stay on Cloudinary until the products are purged from the trash
+      const trashed = await ProductService.trashProducts(products);
+      if (trashed.length === 0) {
+        return NextResponse.json(
+          { success: false, error: 'No matching products found' },
+          { status: 404 }
+        );
+      }
+
+      await AuditService.logMany(request, admin, trashed.map((product) => ({
+        action: 'product.trash' as const,
+        target_type: 'product' as const,
+        target_id: product._id,
+        before: { product_name: product.product_name },
+        after: { bulk: true }
+      })));
+
+      return NextResponse.json({
+        success: true,
+        data: { affected: trashed.length },
+        message: `${trashed.length} product(s) moved to trash`
+      });
+    }
+
+    let updateData: Partial<Pick<Product, 'status' | 'category_id' | 'subcategory_id'>>;
+    let skipped = 0;
+    if (action === 'set_status') {
+      const status = readString(body.status);
+      if (!isProductStatus(status)) {
+        return validationErrorResponse([
+          { field: 'status', message: `Status must be one of: ${PRODUCT_STATUSES.join(', ')}` }
+        ]);
+      }
+      updateData = { status };
+
+      // Products that may not move to the new status are left as they are and reported
+      const allowed = products.filter((product) => canTransitionStatus(product.status, status));
+      skipped = products.length - allowed.length;
+      products = allowed;
+
+      if (products.length === 0) {
+        return NextResponse.json(
+          { success: false, error: `None of the selected products can be set to ${PRODUCT_STATUS_LABELS[status]}` },
+          { status: 409 }
+        );
+      }
+    } else {
+      const categoryId = readString(body.category_id);
+      const subcategoryId = readString(body.subcategory_id);
+      if (!categoryId || !subcategoryId) {
+        return validationErrorResponse([
+          ...(!categoryId ? [{ field: 'category_id', message: 'Category is required' }] : []),
+          ...(!subcategoryId ? [{ field: 'subcategory_id', message: 'Subcategory is required' }] : []),
+        ]);
+      }
+
+      const { errors } = await validateProductTaxonomy(categoryId, subcategoryId);
+      if (errors.length > 0) {
+        return validationErrorResponse(errors);
+      }
+      updateData = { category_id: categoryId, subcategory_id: subcategoryId };
+    }
+
+    const revisions = await ProductService.updateProducts(products, updateData, admin);
+
+    await AuditService.logMany(request, admin, revisions.map((revision) => {
+      const { before, after } = AuditService.fromChanges(revision.changes);
+      return {
+        action: 'product.update' as const,
+        target_type: 'product' as const,
+        target_id: revision.product_id,
+        before,
+        after: { ...after, bulk: true }
+      };
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: { affected: revisions.length, skipped },
+      message: skipped > 0
+        ? `${revisions.length} product(s) updated; ${skipped} skipped because their status cannot change that way`
+        : `${revisions.length} product(s) updated`
+    });
+  } catch (error) {
+    console.error('Error applying bulk product action:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update products' },
+      { status: 500 }
+    );
+  }
+});
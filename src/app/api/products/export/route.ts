@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ProductExportService, EXPORT_FORMATS, isExportFormat } from '@/lib/product-export-service';
+import { withPermission } from '@/lib/api-guard';
+import { isProductStatus } from '@/lib/product-status';
+import { parseProductSort } from '@/lib/product-list-options';
+
+// Takes the same filters and sort as the product list, plus `format`
+export const GET = withPermission('products:read', async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const format = searchParams.get('format') || 'csv';
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { success: false, error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const status = searchParams.get('status') || '';
+    if (status && status !== 'all' && !isProductStatus(status)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown status: ${status}` },
+        { status: 400 }
+      );
+    }
+
+    const { sort, error: sortError } = parseProductSort(searchParams);
+    if (sortError) {
+      return NextResponse.json(
+        { success: false, error: sortError },
+        { status: 400 }
+      );
+    }
+
+    const result = await ProductExportService.export(format, {
+      search: searchParams.get('search') || undefined,
+      category_id: searchParams.get('category_id') || undefined,
+      subcategory_id: searchParams.get('subcategory_id') || undefined,
+      status: isProductStatus(status) ? status : undefined,
+    }, sort);
+
+    return new NextResponse(result.body, {
+      headers: {
+        'Content-Type': result.contentType,
+        'Content-Disposition': `attachment; filename="${result.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting products:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export products' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ProductImportService,
+  MAX_IMPORT_BATCH,
+  MAX_IMPORT_ROWS
+} from '@/lib/product-import-service';
+import { AuditService } from '@/lib/audit-service';
+import { withPermission } from '@/lib/api-guard';
+import { readJsonBody } from '@/lib/validation';
+import { ImportRowInput } from '@/types/product';
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+// Uploading a spreadsheet (multipart `file`) returns a dry-run preview; sending the previewed
+// rows back as JSON (`{ rows }`, at most MAX_IMPORT_BATCH at a time) creates the products
+export const POST = withPermission('products:write', async (request: NextRequest, _context, admin) => {
+  try {
+    const contentType = request.headers.get('content-type') || '';
+
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await request.formData();
+      const file = formData.get('file');
+
+      if (!(file instanceof File) || file.size === 0) {
+        return NextResponse.json(
+          { success: false, error: 'Please upload a CSV or XLSX file' },
+          { status: 400 }
+        );
+      }
+
+      if (file.size > MAX_FILE_SIZE) {
+        return NextResponse.json(
+          { success: false, error: 'Import files can be at most 5MB' },
+          { status: 400 }
+        );
+      }
+
+      let rows: ImportRowInput[];
+      try {
+        rows = ProductImportService.parseFile(Buffer.from(await file.arrayBuffer()));
+      } catch (error) {
+        console.error('Error parsing import file:', error);
+        return NextResponse.json(
+          { success: false, error: 'Could not read the file; upload a CSV or XLSX spreadsheet' },
+          { status: 400 }
+        );
+      }
+
+      if (rows.length === 0) {
+        return NextResponse.json(
+          { success: false, error: 'The file has no product rows' },
+          { status: 400 }
+        );
+      }
+
+      if (rows.length > MAX_IMPORT_ROWS) {
+        return NextResponse.json(
+          { success: false, error: `Import files can have at most ${MAX_IMPORT_ROWS} rows` },
+          { status: 400 }
+        );
+      }
+
+      const results = await ProductImportService.validateRows(rows);
+
+      return NextResponse.json({ success: true, data: results, batch_size: MAX_IMPORT_BATCH });
+    }
+
+    const { body, error } = await readJsonBody(request);
+    if (error) return error;
+    const rows: (ImportRowInput | null)[] = Array.isArray(body.rows)
+      ? body.rows.map((row: unknown) => ProductImportService.fromJson(row))
+      : [];
+
+    if (rows.length === 0 || rows.some((row) => row === null)) {
+      return NextResponse.json(
+        { success: false, error: 'rows must be a list of previewed import rows' },
+        { status: 400 }
+      );
+    }
+
+    if (rows.length > MAX_IMPORT_BATCH) {
+      return NextResponse.json(
+        { success: false, error: `At most ${MAX_IMPORT_BATCH} rows can be imported per request` },
+        { status: 400 }
+      );
+    }
+
+    const results = await ProductImportService.importRows(rows as ImportRowInput[]);
+
+    for (const result of results) {
+      if (result.product_id) {
+        await AuditService.log(request, admin, {
+          action: 'product.create',
+          target_type: 'product',
+          target_id: result.product_id,
+          after: { product_name: result.input.product_name, source: 'import', row: result.row }
+        });
+      }
+    }
+
+    return NextResponse.json({ success: true, data: results });
+  } catch (error) {
+    console.error('Error importing products:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to import products' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,28 +1,81 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ProductService } from '@/lib/product-service';
 import { CloudinaryService } from '@/lib/cloudinary';
+import { withPermission } from '@/lib/api-guard';
+import { isProductStatus } from '@/lib/product-status';
+import { DEFAULT_PAGE_SIZE, parseProductSort } from '@/lib/product-list-options';
+import { AuditService } from '@/lib/audit-service';
+import {
+  productCreateSchema,
+  validatePayload,
+  validateProductTaxonomy,
+  validationErrorResponse
+} from '@/lib/validation';
+import { ProductFormData } from '@/types/product';
 
-export async function GET(request: NextRequest) {
+const MAX_PAGE_SIZE = 100;
+
+export const GET = withPermission('products:read', async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
     
-    // Check if pagination is requested
+    // Check if pagination is requested: page numbers, or a `cursor` (empty for the first page)
     const page = searchParams.get('page');
     const limit = searchParams.get('limit');
+    const cursor = searchParams.get('cursor');
     
-    if (page && limit) {
-      // Paginated request
-      const pageNum = parseInt(page) || 1;
-      const limitNum = parseInt(limit) || 10;
+    if ((page && limit) || cursor !== null) {
+      const limitNum = Math.min(Math.max(parseInt(limit || '') || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
       const search = searchParams.get('search') || '';
       const category_id = searchParams.get('category_id') || '';
       const subcategory_id = searchParams.get('subcategory_id') || '';
+      const status = searchParams.get('status') || '';
+
+      if (status && status !== 'all' && !isProductStatus(status)) {
+        return NextResponse.json(
+          { success: false, error: `Unknown status: ${status}` },
+          { status: 400 }
+        );
+      }
+
+      const { sort, error: sortError } = parseProductSort(searchParams);
+      if (sortError) {
+        return NextResponse.json(
+          { success: false, error: sortError },
+          { status: 400 }
+        );
+      }
 
-      const result = await ProductService.getProductsPaginated(pageNum, limitNum, {
+      const filters = {
         search: search || undefined,
         category_id: category_id || undefined,
         subcategory_id: subcategory_id || undefined,
-      });
+        status: isProductStatus(status) ? status : undefined,
+      };
+
+      if (cursor !== null) {
+        // Keyset request: no skip, so deep pages cost the same as the first one
+        const position = cursor ? ProductService.decodeCursor(cursor, sort) : null;
+        if (cursor && !position) {
+          return NextResponse.json(
+            { success: false, error: 'Invalid cursor for this sort order' },
+            { status: 400 }
+          );
+        }
+
+        const result = await ProductService.getProductsByCursor(limitNum, filters, sort, position);
+
+        return NextResponse.json({
+          success: true,
+          data: result.products,
+          next_cursor: result.nextCursor,
+          // Counting is only worth it once, when the listing starts
+          ...(!cursor ? { total: await ProductService.getTotalProductCount(filters) } : {})
+        });
+      }
+
+      const pageNum = Math.max(parseInt(page || '') || 1, 1);
+      const result = await ProductService.getProductsPaginated(pageNum, limitNum, filters, sort);
 
       return NextResponse.json({ 
         success: true, 
@@ -46,44 +99,46 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
+
+export const POST = withPermission('products:write', async (request: NextRequest, _context, admin) => {
+  // Tracks what reached Cloudinary so a failed create can remove it again
+  let uploadedImageUrls: string[] = [];
 
-export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
     
-    // Extract form fields
-    const productName = formData.get('product_name') as string;
-    const productTitle = formData.get('product_title') as string;
-    const productDescription = formData.get('product_description') as string;
-    const categoryId = formData.get('category_id') as string;
-    const subcategoryId = formData.get('subcategory_id') as string;
-    const categoryName = formData.get('category_name') as string;
-    const subcategoryName = formData.get('subcategory_name') as string;
-
-    // Validate required fields
-    if (!productName || !productTitle || !productDescription || !categoryId || !subcategoryId) {
-      return NextResponse.json(
-        { success: false, error: 'Missing required fields' },
-        { status: 400 }
-      );
-    }
-
-    // Extract image files
+    // Split the text fields from the image files
+    const fields: Record<string, unknown> = {};
     const imageFiles: File[] = [];
     const entries = Array.from(formData.entries());
-    
+
     for (const [key, value] of entries) {
-      if (key.startsWith('images') && value instanceof File) {
-        imageFiles.push(value);
+      if (key.startsWith('images')) {
+        if (value instanceof File) {
+          imageFiles.push(value);
+        }
+      } else {
+        fields[key] = value;
       }
     }
 
+    const validation = validatePayload<Omit<ProductFormData, 'images'>>(fields, productCreateSchema);
+    if (!validation.valid) {
+      return validationErrorResponse(validation.errors);
+    }
+    const fieldData = validation.data;
+
+    const { errors: taxonomyErrors, category, subcategory } = await validateProductTaxonomy(
+      fieldData.category_id,
+      fieldData.subcategory_id
+    );
+    if (!category || !subcategory || taxonomyErrors.length > 0) {
+      return validationErrorResponse(taxonomyErrors);
+    }
+
     if (imageFiles.length === 0) {
-      return NextResponse.json(
-        { success: false, error: 'At least one image is required' },
-        { status: 400 }
-      );
+      return validationErrorResponse([{ field: 'images', message: 'At least one image is required' }]);
     }
 
     // Generate product ID
@@ -97,24 +152,32 @@ export async function POST(request: NextRequest) {
     }
 
     // Upload images to Cloudinary
-    const imageUrls = await CloudinaryService.uploadMultipleImages(
+    uploadedImageUrls = await CloudinaryService.uploadMultipleImages(
       imageBuffers,
       productId,
-      categoryName,
-      subcategoryName
+      category.category_name,
+      subcategory.subcategory_name
     );
 
     // Create product in database
     const productData = {
-      product_name: productName,
-      product_title: productTitle,
-      product_description: productDescription,
-      category_id: categoryId,
-      subcategory_id: subcategoryId,
+      ...fieldData,
       images: imageFiles // This won't be used in the service, but needed for type compatibility
     };
 
-    const product = await ProductService.createProduct(productData, imageUrls);
+    const product = await ProductService.createProduct(productData, uploadedImageUrls, productId);
+
+    await AuditService.log(request, admin, {
+      action: 'product.create',
+      target_type: 'product',
+      target_id: productId,
+      after: {
+        product_name: product.product_name,
+        category_id: product.category_id,
+        subcategory_id: product.subcategory_id,
+        status: product.status
+      }
+    });
 
     return NextResponse.json({ 
       success: true, 
@@ -124,9 +187,17 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('Error creating product:', error);
+
+    if (uploadedImageUrls.length > 0) {
+      const failed = await CloudinaryService.deleteImagesByUrl(uploadedImageUrls);
+      if (failed.length > 0) {
+        console.error('Failed to roll back uploaded images:', failed);
+      }
+    }
+
     return NextResponse.json(
       { success: false, error: 'Failed to create product' },
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ProductService } from '@/lib/product-service';
+import { CategoryService } from '@/lib/category-service';
+import { SubcategoryService } from '@/lib/subcategory-service';
+import { withPermission } from '@/lib/api-guard';
+import { AuditService } from '@/lib/audit-service';
+
+// Restore a trashed product
+export const POST = withPermission<{ productId: string }>('products:delete', async (
+  request: NextRequest,
+  { params },
+  admin
+) => {
+  try {
+    const { productId } = params;
+
+    const product = await ProductService.getTrashedProductById(productId);
+    if (!product) {
+      return NextResponse.json(
+        { success: false, error: 'Product not found in trash' },
+        { status: 404 }
+      );
+    }
+
+    const [category, subcategory] = await Promise.all([
+      CategoryService.getCategoryById(product.category_id),
+      SubcategoryService.getSubcategoryById(product.subcategory_id),
+    ]);
+    if (!category || !subcategory) {
+      return NextResponse.json(
+        { success: false, error: 'The product\'s category or subcategory no longer exists' },
+        { status: 409 }
+      );
+    }
+
+    if (!await ProductService.restoreProduct(product)) {
+      return NextResponse.json(
+        { success: false, error: 'Product not found in trash' },
+        { status: 404 }
+      );
+    }
+
+    await AuditService.log(request, admin, {
+      action: 'product.restore',
+      target_type: 'product',
+      target_id: productId,
+      after: { product_name: product.product_name }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Product restored successfully'
+    });
+  } catch (error) {
+    console.error('Error restoring product:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to restore product' },
+      { status: 500 }
+    );
+  }
+});
+
+// Permanently delete a trashed product and its images
+export const DELETE = withPermission<{ productId: string }>('products:delete', async (
+  request: NextRequest,
+  { params },
+  admin
+) => {
+  try {
+    const { productId } = params;
+
+    const product = await ProductService.getTrashedProductById(productId);
+    if (!product) {
+      return NextResponse.json(
+        { success: false, error: 'Product not found in trash' },
+        { status: 404 }
+      );
+    }
+
+    const cleanupFailures = await ProductService.purgeProduct(product);
+    if (!cleanupFailures) {
+      return NextResponse.json(
+        { success: false, error: 'Product not found in trash' },
+        { status: 404 }
+      );
+    }
+    if (cleanupFailures.length > 0) {
+      console.error(`Failed to delete images for purged product ${productId}:`, cleanupFailures);
+    }
+
+    await AuditService.log(request, admin, {
+      action: 'product.purge',
+      target_type: 'product',
+      target_id: productId,
+      before: { product_name: product.product_name, image_count: product.image_urls.length }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Product permanently deleted',
+      cleanup_failures: cleanupFailures
+    });
+  } catch (error) {
+    console.error('Error purging product:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to permanently delete product' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { ProductService } from '@/lib/product-service';
+import { withPermission } from '@/lib/api-guard';
+import { config } from '@/config/env';
+
+export const GET = withPermission('products:delete', async () => {
+  try {
+    const products = await ProductService.getTrashedProducts();
+
+    return NextResponse.json({
+      success: true,
+      data: products,
+      retention_days: config.trash.retentionDays
+    });
+  } catch (error) {
+    console.error('Error fetching trashed products:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch trash' },
+      { status: 500 }
+    );
+  }
+});
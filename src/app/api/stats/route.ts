@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { StatsService } from '@/lib/stats-service';
+import { withPermission } from '@/lib/api-guard';
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+
+// Dashboard figures; `days` sets how far back the products-created-per-day series goes
+export const GET = withPermission('products:read', async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(Math.max(parseInt(searchParams.get('days') || '') || DEFAULT_DAYS, 1), MAX_DAYS);
+
+    const stats = await StatsService.getCatalogueStats(days);
+
+    return NextResponse.json({ success: true, data: stats });
+  } catch (error) {
+    console.error('Error fetching catalogue stats:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch catalogue stats' },
+      { status: 500 }
+    );
+  }
+});
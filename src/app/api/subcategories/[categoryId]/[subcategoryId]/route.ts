@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CategoryService, ImageMoveResult } from '@/lib/category-service';
+import { SubcategoryService } from '@/lib/subcategory-service';
+import { withPermission } from '@/lib/api-guard';
+import { AuditService } from '@/lib/audit-service';
+import { readJsonBody, subcategorySchema, validatePayload, validationErrorResponse } from '@/lib/validation';
+
+type SubcategoryParams = { categoryId: string; subcategoryId: string };
+
+export const PUT = withPermission<SubcategoryParams>('taxonomy:write', async (
+  request: NextRequest,
+  { params },
+  admin
+) => {
+  try {
+    const { categoryId, subcategoryId } = params;
+    const { body, error } = await readJsonBody(request);
+    if (error) return error;
+
+    const validation = validatePayload<{ subcategory_name?: string; category_id?: string }>(
+      body,
+      subcategorySchema,
+      { partial: true }
+    );
+    if (!validation.valid) {
+      return validationErrorResponse(validation.errors);
+    }
+
+    const subcategory = await SubcategoryService.getSubcategoryById(subcategoryId);
+    if (!subcategory || subcategory.category_id !== categoryId) {
+      return NextResponse.json(
+        { success: false, error: 'Subcategory not found' },
+        { status: 404 }
+      );
+    }
+
+    const subcategoryName = validation.data.subcategory_name ?? subcategory.subcategory_name;
+    const targetCategoryId = validation.data.category_id ?? categoryId;
+
+    const targetCategory = await CategoryService.getCategoryById(targetCategoryId);
+    if (!targetCategory) {
+      return validationErrorResponse([{ field: 'category_id', message: 'Category does not exist' }]);
+    }
+
+    const existing = await SubcategoryService.getSubcategoryByName(targetCategoryId, subcategoryName);
+    if (existing && existing._id !== subcategoryId) {
+      return NextResponse.json(
+        { success: false, error: 'A subcategory with this name already exists in this category' },
+        { status: 409 }
+      );
+    }
+
+    const imageMove: ImageMoveResult = { moved: 0, failed: [] };
+
+    if (subcategoryName !== subcategory.subcategory_name) {
+      const renameResult = await SubcategoryService.renameSubcategory(subcategoryId, subcategoryName);
+      imageMove.moved += renameResult.moved;
+      imageMove.failed.push(...renameResult.failed);
+    }
+
+    if (targetCategoryId !== categoryId) {
+      const moveResult = await SubcategoryService.moveSubcategory(subcategory, targetCategory);
+      imageMove.moved += moveResult.moved;
+      imageMove.failed.push(...moveResult.failed);
+    }
+
+    await AuditService.log(request, admin, {
+      action: 'subcategory.update',
+      target_type: 'subcategory',
+      target_id: subcategoryId,
+      before: { subcategory_name: subcategory.subcategory_name, category_id: categoryId },
+      after: { subcategory_name: subcategoryName, category_id: targetCategoryId }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: imageMove,
+      message: imageMove.failed.length > 0
+        ? `Subcategory updated, but ${imageMove.failed.length} image(s) could not be moved`
+        : 'Subcategory updated successfully'
+    });
+  } catch (error) {
+    console.error('Error updating subcategory:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update subcategory' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withPermission<SubcategoryParams>('taxonomy:write', async (
+  request: NextRequest,
+  { params },
+  admin
+) => {
+  try {
+    const { categoryId, subcategoryId } = params;
+
+    const subcategory = await SubcategoryService.getSubcategoryById(subcategoryId);
+    if (!subcategory || subcategory.category_id !== categoryId) {
+      return NextResponse.json(
+        { success: false, error: 'Subcategory not found' },
+        { status: 404 }
+      );
+    }
+
+    const productCount = await SubcategoryService.countProductsInSubcategory(subcategoryId);
+    if (subcategory.product_count > 0 || productCount > 0) {
+      return NextResponse.json(
+        { success: false, error: 'Cannot delete a subcategory that still has products (including products in the trash)' },
+        { status: 409 }
+      );
+    }
+
+    await SubcategoryService.deleteSubcategory(subcategory);
+
+    await AuditService.log(request, admin, {
+      action: 'subcategory.delete',
+      target_type: 'subcategory',
+      target_id: subcategoryId,
+      before: { subcategory_name: subcategory.subcategory_name, category_id: categoryId }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Subcategory deleted successfully'
+    });
+  } catch (error) {
+    console.error('Error deleting subcategory:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete subcategory' },
+      { status: 500 }
+    );
+  }
+});
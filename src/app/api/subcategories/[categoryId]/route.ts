@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ProductService } from '@/lib/product-service';
+import { withPermission } from '@/lib/api-guard';
 
-export async function GET(
+export const GET = withPermission<{ categoryId: string }>('products:read', async (
   request: NextRequest,
-  { params }: { params: { categoryId: string } }
-) {
+  { params }
+) => {
   try {
     const { categoryId } = params;
     const subcategories = await ProductService.getSubcategoriesByCategory(categoryId);
@@ -16,4 +17,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
@@ -1,7 +1,12 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { ProductService } from '@/lib/product-service';
+import { CategoryService } from '@/lib/category-service';
+import { SubcategoryService } from '@/lib/subcategory-service';
+import { withPermission } from '@/lib/api-guard';
+import { AuditService } from '@/lib/audit-service';
+import { readJsonBody, subcategorySchema, validatePayload, validationErrorResponse } from '@/lib/validation';
 
-export async function GET() {
+export const GET = withPermission('products:read', async () => {
   try {
     const subcategories = await ProductService.getAllSubcategories();
     return NextResponse.json({ success: true, data: subcategories });
@@ -12,5 +17,53 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
+export const POST = withPermission('taxonomy:write', async (request: NextRequest, _context, admin) => {
+  try {
+    const { body, error } = await readJsonBody(request);
+    if (error) return error;
+
+    const validation = validatePayload<{ subcategory_name: string; category_id: string }>(
+      body,
+      subcategorySchema
+    );
+    if (!validation.valid) {
+      return validationErrorResponse(validation.errors);
+    }
+    const { subcategory_name: subcategoryName, category_id: categoryId } = validation.data;
+
+    const category = await CategoryService.getCategoryById(categoryId);
+    if (!category) {
+      return validationErrorResponse([{ field: 'category_id', message: 'Category does not exist' }]);
+    }
+
+    if (await SubcategoryService.getSubcategoryByName(categoryId, subcategoryName)) {
+      return NextResponse.json(
+        { success: false, error: 'A subcategory with this name already exists in this category' },
+        { status: 409 }
+      );
+    }
+
+    const subcategory = await SubcategoryService.createSubcategory(categoryId, subcategoryName);
+
+    await AuditService.log(request, admin, {
+      action: 'subcategory.create',
+      target_type: 'subcategory',
+      target_id: subcategory._id,
+      after: { subcategory_name: subcategoryName, category_id: categoryId }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: subcategory,
+      message: 'Subcategory created successfully'
+    });
+  } catch (error) {
+    console.error('Error creating subcategory:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create subcategory' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,281 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { Select } from '@/components/ui/Select';
+import { AUDIT_ACTIONS } from '@/lib/audit-actions';
+import { ClipboardList, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface AuditEntry {
+  _id: string;
+  admin_id: string | null;
+  admin_username: string | null;
+  action: string;
+  target_type: string;
+  target_id: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  ip: string | null;
+  created_at: string;
+}
+
+interface Actor {
+  admin_id: string;
+  username: string;
+}
+
+interface Pagination {
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+const ITEMS_PER_PAGE = 25;
+const MAX_VALUE_LENGTH = 80;
+
+const TARGET_TYPE_OPTIONS = [
+  { value: 'product', label: 'All product actions' },
+  { value: 'category', label: 'All category actions' },
+  { value: 'subcategory', label: 'All subcategory actions' },
+  { value: 'admin', label: 'All admin actions' },
+  { value: 'auth', label: 'All sign-in actions' },
+];
+
+const actionOptions = [
+  { value: 'all', label: 'All Actions' },
+  ...TARGET_TYPE_OPTIONS,
+  ...AUDIT_ACTIONS.map((action) => ({ value: action, label: action })),
+];
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) {
+    return value.every((item) => typeof item === 'string' && item.length < 30)
+      ? value.join(', ') || '—'
+      : `${value.length} item(s)`;
+  }
+
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+}
+
+export default function AuditLogPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [actors, setActors] = useState<Actor[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [adminFilter, setAdminFilter] = useState('all');
+  const [actionFilter, setActionFilter] = useState('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pagination, setPagination] = useState<Pagination>({
+    total: 0,
+    page: 1,
+    limit: ITEMS_PER_PAGE,
+    totalPages: 0,
+  });
+
+  const fetchEntries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({
+        page: currentPage.toString(),
+        limit: ITEMS_PER_PAGE.toString(),
+      });
+      if (adminFilter !== 'all') params.set('admin_id', adminFilter);
+      if (actionFilter !== 'all') params.set('action', actionFilter);
+      if (fromDate) params.set('from', fromDate);
+      if (toDate) params.set('to', toDate);
+
+      const res = await fetch(`/api/audit?${params.toString()}`);
+      const data = await res.json();
+
+      if (data.success) {
+        setEntries(data.data);
+        setActors(data.admins);
+        setPagination(data.pagination);
+      } else {
+        toast.error(data.error || 'Failed to load audit log');
+      }
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      toast.error('Failed to load audit log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentPage, adminFilter, actionFilter, fromDate, toDate]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  // Any filter change starts again from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setCurrentPage(1);
+  };
+
+  const adminOptions = [
+    { value: 'all', label: 'All Admins' },
+    ...actors.map((actor) => ({ value: actor.admin_id, label: actor.username })),
+  ];
+
+  const renderSummary = (entry: AuditEntry) => {
+    const fields = Array.from(new Set([
+      ...Object.keys(entry.before || {}),
+      ...Object.keys(entry.after || {}),
+    ]));
+
+    if (fields.length === 0) {
+      return <span className="text-slate-400">—</span>;
+    }
+
+    return (
+      <ul className="space-y-1">
+        {fields.map((field) => (
+          <li key={field} className="break-words">
+            <span className="font-medium text-slate-600">{field}: </span>
+            {entry.before && field in entry.before && (
+              <>
+                <span className="text-rose-600">{formatValue(entry.before[field])}</span>
+                {entry.after && field in entry.after && <span className="text-slate-400 mx-1">→</span>}
+              </>
+            )}
+            {entry.after && field in entry.after && (
+              <span className="text-teal-700">{formatValue(entry.after[field])}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <AdminLayout title="Audit Log" requiredPermission="audit:read">
+      <div className="space-y-4 md:space-y-5">
+        {/* Filters */}
+        <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-sm">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            <Select
+              value={adminFilter}
+              onValueChange={updateFilter(setAdminFilter)}
+              options={adminOptions}
+              placeholder="Admin"
+            />
+            <Select
+              value={actionFilter}
+              onValueChange={updateFilter(setActionFilter)}
+              options={actionOptions}
+              placeholder="Action"
+            />
+            <input
+              type="date"
+              value={fromDate}
+              max={toDate || undefined}
+              onChange={(e) => updateFilter(setFromDate)(e.target.value)}
+              aria-label="From date"
+              className="w-full h-11 px-4 rounded-xl border-2 border-slate-200 bg-white text-slate-800 focus:outline-none focus:border-teal-500 transition-all"
+            />
+            <input
+              type="date"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e) => updateFilter(setToDate)(e.target.value)}
+              aria-label="To date"
+              className="w-full h-11 px-4 rounded-xl border-2 border-slate-200 bg-white text-slate-800 focus:outline-none focus:border-teal-500 transition-all"
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="w-8 h-8 text-teal-500 animate-spin" />
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="bg-white rounded-2xl border border-slate-200 p-8 text-center">
+            <ClipboardList className="w-12 h-12 text-slate-300 mx-auto mb-3" />
+            <p className="text-slate-500">No audit entries found</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-2xl border border-slate-200 overflow-hidden shadow-sm">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-slate-50 border-b border-slate-200">
+                  <tr>
+                    <th className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4">
+                      When
+                    </th>
+                    <th className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4">
+                      Admin
+                    </th>
+                    <th className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4">
+                      Action
+                    </th>
+                    <th className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4">
+                      Changes
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {entries.map((entry) => (
+                    <tr key={entry._id} className="align-top hover:bg-slate-50 transition-colors">
+                      <td className="px-6 py-4 text-sm text-slate-700 whitespace-nowrap">
+                        {new Date(entry.created_at).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        <p className="font-semibold text-slate-800">{entry.admin_username || 'System'}</p>
+                        {entry.ip && <p className="text-slate-400 text-xs">{entry.ip}</p>}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        <p className="font-medium text-slate-800">{entry.action}</p>
+                        {entry.target_id && <p className="text-slate-400 text-xs">{entry.target_id}</p>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-slate-700 max-w-md">
+                        {renderSummary(entry)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Pagination */}
+        {pagination.totalPages > 1 && !isLoading && (
+          <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-sm">
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-slate-600">
+                Page <span className="font-semibold text-slate-800">{pagination.page}</span> of{' '}
+                <span className="font-semibold text-slate-800">{pagination.totalPages}</span>
+                {' · '}
+                <span className="font-semibold text-slate-800">{pagination.total}</span> entries
+              </p>
+
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setCurrentPage(currentPage - 1)}
+                  disabled={currentPage === 1}
+                  className="h-10 px-3 flex items-center gap-1 rounded-xl border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                  <span className="hidden sm:inline">Previous</span>
+                </button>
+                <button
+                  onClick={() => setCurrentPage(currentPage + 1)}
+                  disabled={currentPage === pagination.totalPages}
+                  className="h-10 px-3 flex items-center gap-1 rounded-xl border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <span className="hidden sm:inline">Next</span>
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
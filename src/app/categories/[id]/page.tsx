@@ -0,0 +1,361 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { Select } from '@/components/ui/Select';
+import { useAuth } from '@/contexts/AuthContext';
+import { ArrowLeft, Plus, Edit, Trash2, FolderTree, Loader2, Check, X, MoveRight } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface Category {
+  _id: string;
+  category_name: string;
+  product_count: number;
+  subcategory_count: number;
+}
+
+interface Subcategory {
+  _id: string;
+  subcategory_name: string;
+  category_id: string;
+  product_count: number;
+}
+
+type EditMode = { subcategoryId: string; mode: 'rename' | 'move' } | null;
+
+export default function CategoryDetailPage() {
+  const router = useRouter();
+  const params = useParams();
+  const categoryId = params.id as string;
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission('taxonomy:write');
+
+  const [category, setCategory] = useState<Category | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [subcategories, setSubcategories] = useState<Subcategory[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newSubcategoryName, setNewSubcategoryName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [editMode, setEditMode] = useState<EditMode>(null);
+  const [editingName, setEditingName] = useState('');
+  const [targetCategoryId, setTargetCategoryId] = useState('');
+  const [savingSubcategoryId, setSavingSubcategoryId] = useState<string | null>(null);
+  const [deletingSubcategoryId, setDeletingSubcategoryId] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [categoryRes, categoriesRes, subcategoriesRes] = await Promise.all([
+        fetch(`/api/categories/${categoryId}`),
+        fetch('/api/categories'),
+        fetch(`/api/subcategories/${categoryId}`),
+      ]);
+
+      const categoryData = await categoryRes.json();
+      const categoriesData = await categoriesRes.json();
+      const subcategoriesData = await subcategoriesRes.json();
+
+      if (categoryData.success) {
+        setCategory(categoryData.data);
+      } else {
+        toast.error('Category not found');
+        router.push('/categories');
+        return;
+      }
+      if (categoriesData.success) {
+        setCategories(categoriesData.data);
+      }
+      if (subcategoriesData.success) {
+        setSubcategories(subcategoriesData.data);
+      }
+    } catch (error) {
+      console.error('Error fetching category:', error);
+      toast.error('Failed to load category');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [categoryId, router]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!newSubcategoryName.trim()) {
+      toast.error('Please enter a subcategory name.');
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const res = await fetch('/api/subcategories', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ subcategory_name: newSubcategoryName.trim(), category_id: categoryId }),
+      });
+      const result = await res.json();
+
+      if (result.success) {
+        toast.success(`${newSubcategoryName.trim()} has been created successfully!`);
+        setNewSubcategoryName('');
+        fetchData();
+      } else {
+        toast.error(result.error || 'Failed to create subcategory');
+      }
+    } catch (error) {
+      console.error('Error creating subcategory:', error);
+      toast.error('Failed to create subcategory');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const startEditing = (subcategory: Subcategory, mode: 'rename' | 'move') => {
+    setEditMode({ subcategoryId: subcategory._id, mode });
+    setEditingName(subcategory.subcategory_name);
+    setTargetCategoryId('');
+  };
+
+  const handleSave = async (subcategory: Subcategory) => {
+    if (!editMode) return;
+
+    const body = editMode.mode === 'rename'
+      ? { subcategory_name: editingName.trim() }
+      : { category_id: targetCategoryId };
+
+    if (editMode.mode === 'rename' && !editingName.trim()) {
+      toast.error('Please enter a subcategory name.');
+      return;
+    }
+    if (editMode.mode === 'move' && !targetCategoryId) {
+      toast.error('Please select a category to move to.');
+      return;
+    }
+    if (editMode.mode === 'move' && subcategory.product_count > 0 &&
+      !confirm(`Move "${subcategory.subcategory_name}" and its ${subcategory.product_count} product(s) to another category?`)) {
+      return;
+    }
+
+    setSavingSubcategoryId(subcategory._id);
+    try {
+      const res = await fetch(`/api/subcategories/${categoryId}/${subcategory._id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+      const result = await res.json();
+
+      if (result.success) {
+        if (result.data?.failed?.length > 0) {
+          toast.error(result.message);
+        } else {
+          toast.success(editMode.mode === 'rename' ? 'Subcategory renamed successfully' : 'Subcategory moved successfully');
+        }
+        setEditMode(null);
+        fetchData();
+      } else {
+        toast.error(result.error || 'Failed to update subcategory');
+      }
+    } catch (error) {
+      console.error('Error updating subcategory:', error);
+      toast.error('Failed to update subcategory');
+    } finally {
+      setSavingSubcategoryId(null);
+    }
+  };
+
+  const handleDelete = async (subcategory: Subcategory) => {
+    if (!confirm(`Are you sure you want to delete "${subcategory.subcategory_name}"?`)) {
+      return;
+    }
+
+    setDeletingSubcategoryId(subcategory._id);
+    try {
+      const res = await fetch(`/api/subcategories/${categoryId}/${subcategory._id}`, { method: 'DELETE' });
+      const result = await res.json();
+
+      if (result.success) {
+        toast.success('Subcategory deleted successfully');
+        fetchData();
+      } else {
+        toast.error(result.error || 'Failed to delete subcategory');
+      }
+    } catch (error) {
+      console.error('Error deleting subcategory:', error);
+      toast.error('Failed to delete subcategory');
+    } finally {
+      setDeletingSubcategoryId(null);
+    }
+  };
+
+  const moveOptions = categories
+    .filter((c) => c._id !== categoryId)
+    .map((c) => ({ value: c._id, label: c.category_name }));
+
+  if (isLoading) {
+    return (
+      <AdminLayout title="Category" requiredPermission="products:read">
+        <div className="flex flex-col items-center justify-center h-64 gap-4">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-teal-500"></div>
+          <p className="text-slate-500">Loading category...</p>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  if (!category) {
+    return null;
+  }
+
+  return (
+    <AdminLayout title="Category" requiredPermission="products:read">
+      <div className="space-y-4 md:space-y-5">
+        {/* Header */}
+        <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-sm">
+          <div className="flex items-center gap-3 min-w-0">
+            <button
+              type="button"
+              onClick={() => router.push('/categories')}
+              className="p-2.5 hover:bg-slate-100 rounded-xl transition-colors flex-shrink-0"
+            >
+              <ArrowLeft className="w-5 h-5 text-slate-600" />
+            </button>
+            <div className="min-w-0">
+              <h2 className="text-lg font-bold text-slate-800 truncate">{category.category_name}</h2>
+              <p className="text-sm text-slate-500">
+                {category.subcategory_count} subcategories · {category.product_count} products
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Create Subcategory */}
+        {canWrite && (
+          <form
+            onSubmit={handleCreate}
+            className="bg-white rounded-2xl border border-slate-200 p-4 shadow-sm flex flex-col sm:flex-row gap-3"
+          >
+            <input
+              placeholder="New subcategory name"
+              value={newSubcategoryName}
+              onChange={(e) => setNewSubcategoryName(e.target.value)}
+              className="flex-1 h-11 px-4 rounded-xl border-2 border-slate-200 bg-white text-slate-800 placeholder:text-slate-400 focus:outline-none focus:border-teal-500 transition-all"
+            />
+            <button
+              type="submit"
+              disabled={isCreating}
+              className="h-11 px-5 bg-white border-2 border-teal-500 text-teal-600 rounded-xl font-semibold hover:bg-teal-50 hover:border-teal-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              <Plus className="w-5 h-5" />
+              <span>{isCreating ? 'Adding...' : 'Add Subcategory'}</span>
+            </button>
+          </form>
+        )}
+
+        {subcategories.length === 0 ? (
+          <div className="bg-white rounded-2xl border border-slate-200 p-8 text-center">
+            <FolderTree className="w-12 h-12 text-slate-300 mx-auto mb-3" />
+            <p className="text-slate-500">No subcategories found</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-2xl border border-slate-200 shadow-sm divide-y divide-slate-100">
+            {subcategories.map((subcategory) => {
+              const isEditing = editMode?.subcategoryId === subcategory._id;
+              const isSaving = savingSubcategoryId === subcategory._id;
+
+              return (
+                <div key={subcategory._id} className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    {isEditing && editMode.mode === 'rename' ? (
+                      <input
+                        value={editingName}
+                        onChange={(e) => setEditingName(e.target.value)}
+                        autoFocus
+                        className="w-full h-10 px-3 rounded-xl border-2 border-slate-200 bg-white text-slate-800 focus:outline-none focus:border-teal-500 transition-all"
+                      />
+                    ) : (
+                      <>
+                        <p className="font-semibold text-slate-800 truncate">{subcategory.subcategory_name}</p>
+                        <p className="text-slate-500 text-sm">{subcategory.product_count} products</p>
+                      </>
+                    )}
+                    {isEditing && editMode.mode === 'move' && (
+                      <Select
+                        value={targetCategoryId}
+                        onValueChange={setTargetCategoryId}
+                        options={moveOptions}
+                        placeholder="Move to category"
+                        className="mt-2"
+                      />
+                    )}
+                  </div>
+
+                  {canWrite && (
+                    <div className="flex items-center gap-2 sm:self-start">
+                      {isEditing ? (
+                        <>
+                          <button
+                            onClick={() => handleSave(subcategory)}
+                            disabled={isSaving}
+                            className="p-2.5 bg-white border-2 border-teal-500 text-teal-600 rounded-lg hover:bg-teal-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+                            title="Save"
+                          >
+                            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                          </button>
+                          <button
+                            onClick={() => setEditMode(null)}
+                            disabled={isSaving}
+                            className="p-2.5 bg-white border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+                            title="Cancel"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          <button
+                            onClick={() => startEditing(subcategory, 'rename')}
+                            className="p-2.5 bg-white border-2 border-teal-500 text-teal-600 rounded-lg hover:bg-teal-50 transition-colors flex items-center justify-center"
+                            title="Rename"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => startEditing(subcategory, 'move')}
+                            disabled={moveOptions.length === 0}
+                            className="p-2.5 bg-white border-2 border-teal-500 text-teal-600 rounded-lg hover:bg-teal-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+                            title="Move to another category"
+                          >
+                            <MoveRight className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(subcategory)}
+                            disabled={deletingSubcategoryId === subcategory._id || subcategory.product_count > 0}
+                            className="p-2.5 bg-white border-2 border-rose-500 text-rose-600 rounded-lg hover:bg-rose-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+                            title={subcategory.product_count > 0 ? 'Subcategories with products cannot be deleted' : 'Delete'}
+                          >
+                            {deletingSubcategoryId === subcategory._id ? (
+                              <Loader2 className="w-4 h-4 animate-spin" />
+                            ) : (
+                              <Trash2 className="w-4 h-4" />
+                            )}
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,313 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { useAuth } from '@/contexts/AuthContext';
+import { Plus, Edit, Trash2, FolderTree, Loader2, Check, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface Category {
+  _id: string;
+  category_name: string;
+  product_count: number;
+  subcategory_count: number;
+  created_at: string;
+}
+
+interface ImageMove {
+  moved: number;
+  failed: string[];
+  remaining: number;
+}
+
+export default function CategoryListPage() {
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission('taxonomy:write');
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newCategoryName, setNewCategoryName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [editingCategoryId, setEditingCategoryId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [savingCategoryId, setSavingCategoryId] = useState<string | null>(null);
+  const [deletingCategoryId, setDeletingCategoryId] = useState<string | null>(null);
+
+  const fetchCategories = useCallback(async () => {
+    try {
+      const res = await fetch('/api/categories');
+      const data = await res.json();
+      if (data.success) {
+        setCategories(data.data);
+      }
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+      toast.error('Failed to load categories');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCategories();
+  }, [fetchCategories]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!newCategoryName.trim()) {
+      toast.error('Please enter a category name.');
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const res = await fetch('/api/categories', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ category_name: newCategoryName.trim() }),
+      });
+      const result = await res.json();
+
+      if (result.success) {
+        toast.success(`${newCategoryName.trim()} has been created successfully!`);
+        setNewCategoryName('');
+        fetchCategories();
+      } else {
+        toast.error(result.error || 'Failed to create category');
+      }
+    } catch (error) {
+      console.error('Error creating category:', error);
+      toast.error('Failed to create category');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const startEditing = (category: Category) => {
+    setEditingCategoryId(category._id);
+    setEditingName(category.category_name);
+  };
+
+  const handleRename = async (categoryId: string) => {
+    if (!editingName.trim()) {
+      toast.error('Please enter a category name.');
+      return;
+    }
+
+    setSavingCategoryId(categoryId);
+    try {
+      const res = await fetch(`/api/categories/${categoryId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ category_name: editingName.trim() }),
+      });
+      const result = await res.json();
+
+      if (result.success) {
+        // Each request moves images for a bounded time, so keep going until none are left
+        let imageMove: ImageMove = result.data;
+        // Failing images are retried by every request, so count each one once
+        const failed = new Set(imageMove.failed);
+        while (imageMove.remaining > 0) {
+          const moveRes = await fetch(`/api/categories/${categoryId}/images`, { method: 'POST' });
+          const moveResult = await moveRes.json();
+          // Stop when a request fails or makes no headway (only failing images left to retry)
+          if (!moveResult.success || moveResult.data.remaining >= imageMove.remaining) break;
+          imageMove = moveResult.data;
+          imageMove.failed.forEach((url) => failed.add(url));
+        }
+
+        if (imageMove.remaining > 0) {
+          toast.error(`Category renamed, but images of ${imageMove.remaining} product(s) were not moved yet; save the name again to continue`);
+        } else if (failed.size > 0) {
+          toast.error(`Category renamed, but ${failed.size} image(s) could not be moved`);
+        } else {
+          toast.success('Category renamed successfully');
+        }
+        setEditingCategoryId(null);
+        fetchCategories();
+      } else {
+        toast.error(result.error || 'Failed to rename category');
+      }
+    } catch (error) {
+      console.error('Error renaming category:', error);
+      toast.error('Failed to rename category');
+    } finally {
+      setSavingCategoryId(null);
+    }
+  };
+
+  const handleDelete = async (category: Category) => {
+    if (!confirm(`Are you sure you want to delete "${category.category_name}"?`)) {
+      return;
+    }
+
+    setDeletingCategoryId(category._id);
+    try {
+      const res = await fetch(`/api/categories/${category._id}`, { method: 'DELETE' });
+      const result = await res.json();
+
+      if (result.success) {
+        toast.success('Category deleted successfully');
+        fetchCategories();
+      } else {
+        toast.error(result.error || 'Failed to delete category');
+      }
+    } catch (error) {
+      console.error('Error deleting category:', error);
+      toast.error('Failed to delete category');
+    } finally {
+      setDeletingCategoryId(null);
+    }
+  };
+
+  return (
+    <AdminLayout title="Categories" requiredPermission="products:read">
+      <div className="space-y-4 md:space-y-5">
+        {/* Create Category */}
+        {canWrite && (
+          <form
+            onSubmit={handleCreate}
+            className="bg-white rounded-2xl border border-slate-200 p-4 shadow-sm flex flex-col sm:flex-row gap-3"
+          >
+            <input
+              placeholder="New category name"
+              value={newCategoryName}
+              onChange={(e) => setNewCategoryName(e.target.value)}
+              className="flex-1 h-11 px-4 rounded-xl border-2 border-slate-200 bg-white text-slate-800 placeholder:text-slate-400 focus:outline-none focus:border-teal-500 transition-all"
+            />
+            <button
+              type="submit"
+              disabled={isCreating}
+              className="h-11 px-5 bg-white border-2 border-teal-500 text-teal-600 rounded-xl font-semibold hover:bg-teal-50 hover:border-teal-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              <Plus className="w-5 h-5" />
+              <span>{isCreating ? 'Adding...' : 'Add Category'}</span>
+            </button>
+          </form>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="w-8 h-8 text-teal-500 animate-spin" />
+          </div>
+        ) : categories.length === 0 ? (
+          <div className="bg-white rounded-2xl border border-slate-200 p-8 text-center">
+            <FolderTree className="w-12 h-12 text-slate-300 mx-auto mb-3" />
+            <p className="text-slate-500">No categories found</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-2xl border border-slate-200 overflow-hidden shadow-sm">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-slate-50 border-b border-slate-200">
+                  <tr>
+                    <th className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4">
+                      Category
+                    </th>
+                    <th className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4">
+                      Subcategories
+                    </th>
+                    <th className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4">
+                      Products
+                    </th>
+                    {canWrite && (
+                      <th className="text-right text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4">
+                        Actions
+                      </th>
+                    )}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {categories.map((category) => (
+                    <tr key={category._id} className="hover:bg-slate-50 transition-colors">
+                      <td className="px-6 py-4">
+                        {editingCategoryId === category._id ? (
+                          <input
+                            value={editingName}
+                            onChange={(e) => setEditingName(e.target.value)}
+                            autoFocus
+                            className="w-full h-10 px-3 rounded-xl border-2 border-slate-200 bg-white text-slate-800 focus:outline-none focus:border-teal-500 transition-all"
+                          />
+                        ) : (
+                          <div>
+                            <Link
+                              href={`/categories/${category._id}`}
+                              className="font-semibold text-slate-800 hover:text-teal-600 transition-colors"
+                            >
+                              {category.category_name}
+                            </Link>
+                            <p className="text-slate-400 text-xs">{category._id}</p>
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-slate-700">{category.subcategory_count}</td>
+                      <td className="px-6 py-4 text-slate-700">{category.product_count}</td>
+                      {canWrite && (
+                        <td className="px-6 py-4">
+                          <div className="flex items-center justify-end gap-2">
+                            {editingCategoryId === category._id ? (
+                              <>
+                                <button
+                                  onClick={() => handleRename(category._id)}
+                                  disabled={savingCategoryId === category._id}
+                                  className="p-2.5 bg-white border-2 border-teal-500 text-teal-600 rounded-lg hover:bg-teal-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+                                  title="Save"
+                                >
+                                  {savingCategoryId === category._id ? (
+                                    <Loader2 className="w-4 h-4 animate-spin" />
+                                  ) : (
+                                    <Check className="w-4 h-4" />
+                                  )}
+                                </button>
+                                <button
+                                  onClick={() => setEditingCategoryId(null)}
+                                  disabled={savingCategoryId === category._id}
+                                  className="p-2.5 bg-white border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+                                  title="Cancel"
+                                >
+                                  <X className="w-4 h-4" />
+                                </button>
+                              </>
+                            ) : (
+                              <>
+                                <button
+                                  onClick={() => startEditing(category)}
+                                  className="p-2.5 bg-white border-2 border-teal-500 text-teal-600 rounded-lg hover:bg-teal-50 transition-colors flex items-center justify-center"
+                                  title="Rename"
+                                >
+                                  <Edit className="w-4 h-4" />
+                                </button>
+                                <button
+                                  onClick={() => handleDelete(category)}
+                                  disabled={deletingCategoryId === category._id || category.product_count > 0}
+                                  className="p-2.5 bg-white border-2 border-rose-500 text-rose-600 rounded-lg hover:bg-rose-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+                                  title={category.product_count > 0 ? 'Categories with products cannot be deleted' : 'Delete'}
+                                >
+                                  {deletingCategoryId === category._id ? (
+                                    <Loader2 className="w-4 h-4 animate-spin" />
+                                  ) : (
+                                    <Trash2 className="w-4 h-4" />
+                                  )}
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
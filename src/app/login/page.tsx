@@ -16,7 +16,7 @@ export default function LoginPage() {
 
   useEffect(() => {
     if (!authLoading && isAuthenticated) {
-      router.replace('/products');
+      router.replace('/');
     }
   }, [isAuthenticated, authLoading, router]);
 
@@ -24,16 +24,13 @@ export default function LoginPage() {
     e.preventDefault();
     setIsLoading(true);
 
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 500));
-
-    const success = login(username, password);
+    const success = await login(username, password);
     
     if (success) {
       toast.success('Welcome back! You have successfully logged in.');
-      router.push('/products');
+      router.push('/');
     } else {
-      toast.error('Invalid username or password. Try admin/admin');
+      toast.error('Invalid username or password.');
     }
     
     setIsLoading(false);
@@ -0,0 +1,168 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { Select } from '@/components/ui/Select';
+import { Discrepancy, DiscrepancyKind, ReconcileReport } from '@/types/product';
+import { CheckCircle2, AlertTriangle, RefreshCw, Wrench, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+type Report = Omit<ReconcileReport, 'checked_at'> & { checked_at: string };
+
+const KIND_LABELS: Record<DiscrepancyKind, string> = {
+  wrong_count: 'Wrong count',
+  missing_id: 'Missing id',
+  dangling_id: 'Dangling id',
+  missing_parent: 'Missing parent',
+  parent_mismatch: 'Parent mismatch',
+};
+
+const kindOptions = [
+  { value: 'all', label: 'All Problems' },
+  ...Object.entries(KIND_LABELS).map(([value, label]) => ({ value, label })),
+];
+
+export default function MaintenancePage() {
+  const [report, setReport] = useState<Report | null>(null);
+  const [isChecking, setIsChecking] = useState(true);
+  const [isRepairing, setIsRepairing] = useState(false);
+  const [kindFilter, setKindFilter] = useState('all');
+
+  const runCheck = useCallback(async () => {
+    setIsChecking(true);
+    try {
+      const res = await fetch('/api/maintenance/reconcile');
+      const data = await res.json();
+      if (data.success) {
+        setReport(data.data);
+      } else {
+        toast.error(data.error || 'Failed to check counters');
+      }
+    } catch (error) {
+      console.error('Error checking counters:', error);
+      toast.error('Failed to check counters');
+    } finally {
+      setIsChecking(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    runCheck();
+  }, [runCheck]);
+
+  const fixableCount = report?.discrepancies.filter((d) => d.fixable).length ?? 0;
+
+  const handleRepair = async () => {
+    if (!confirm(`Rewrite the counters and id lists behind ${fixableCount} problem(s)? This is recorded in the audit log.`)) {
+      return;
+    }
+
+    setIsRepairing(true);
+    try {
+      const res = await fetch('/api/maintenance/reconcile', { method: 'POST' });
+      const data = await res.json();
+      if (data.success) {
+        toast.success(data.message);
+        // The repair reports what it found before fixing; check again to show what is left
+        await runCheck();
+      } else {
+        toast.error(data.error || 'Failed to repair counters');
+      }
+    } catch (error) {
+      console.error('Error repairing counters:', error);
+      toast.error('Failed to repair counters');
+    } finally {
+      setIsRepairing(false);
+    }
+  };
+
+  const visible: Discrepancy[] = (report?.discrepancies || []).filter(
+    (d) => kindFilter === 'all' || d.kind === kindFilter
+  );
+
+  return (
+    <AdminLayout title="Reconcile Counters" requiredPermission="taxonomy:write">
+      <div className="space-y-4 md:space-y-5">
+        <div className="bg-white rounded-2xl border border-slate-200 p-4 md:p-6 shadow-sm">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <h2 className="text-lg font-semibold text-slate-800">Category and Subcategory Counters</h2>
+              <p className="text-sm text-slate-500 mt-1">
+                Compares each category&apos;s and subcategory&apos;s stored product/subcategory lists and counts
+                with the products and subcategories that actually reference it.
+              </p>
+              {report && (
+                <p className="text-xs text-slate-400 mt-2">
+                  Checked {report.checked.products} products, {report.checked.categories} categories and{' '}
+                  {report.checked.subcategories} subcategories at {new Date(report.checked_at).toLocaleString()}
+                </p>
+              )}
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={runCheck}
+                disabled={isChecking || isRepairing}
+                className="h-11 px-5 bg-white border-2 border-slate-200 text-slate-600 rounded-xl font-semibold hover:bg-slate-50 hover:border-slate-300 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                <RefreshCw className={`w-5 h-5 ${isChecking ? 'animate-spin' : ''}`} />
+                <span>Check Again</span>
+              </button>
+              <button
+                onClick={handleRepair}
+                disabled={isChecking || isRepairing || fixableCount === 0}
+                className="h-11 px-5 bg-white border-2 border-teal-500 text-teal-600 rounded-xl font-semibold hover:bg-teal-50 hover:border-teal-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                {isRepairing ? <Loader2 className="w-5 h-5 animate-spin" /> : <Wrench className="w-5 h-5" />}
+                <span>Repair</span>
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {isChecking && !report ? (
+          <div className="flex flex-col items-center justify-center h-48 gap-4">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-teal-500"></div>
+            <p className="text-slate-500">Checking counters...</p>
+          </div>
+        ) : report && report.discrepancies.length === 0 ? (
+          <div className="bg-white rounded-2xl border border-slate-200 p-8 text-center shadow-sm">
+            <CheckCircle2 className="w-12 h-12 text-teal-500 mx-auto mb-3" />
+            <p className="text-slate-600 font-medium">Every counter and id list matches the products</p>
+          </div>
+        ) : report && (
+          <div className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 border-b border-slate-200">
+              <p className="flex items-center gap-2 text-sm text-slate-600">
+                <AlertTriangle className="w-5 h-5 text-amber-500" />
+                <span>
+                  <span className="font-semibold text-slate-800">{report.discrepancies.length}</span> problem(s),{' '}
+                  <span className="font-semibold text-slate-800">{fixableCount}</span> repairable
+                </span>
+              </p>
+              <Select
+                value={kindFilter}
+                onValueChange={setKindFilter}
+                options={kindOptions}
+                placeholder="Problem"
+                className="w-full sm:w-48"
+              />
+            </div>
+            <ul className="divide-y divide-slate-100">
+              {visible.map((discrepancy, index) => (
+                <li key={index} className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 px-4 py-3">
+                  <span className="inline-flex w-fit px-2.5 py-0.5 rounded-full border text-xs font-semibold bg-slate-50 text-slate-600 border-slate-200">
+                    {KIND_LABELS[discrepancy.kind]}
+                  </span>
+                  <p className="flex-1 text-sm text-slate-700 break-words">{discrepancy.message}</p>
+                  {!discrepancy.fixable && (
+                    <span className="text-xs font-medium text-amber-700 whitespace-nowrap">Needs a manual edit</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
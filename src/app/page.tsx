@@ -1,26 +1,288 @@
 'use client';
 
-import { useEffect } from 'react';
-import { useRouter } from 'next/navigation';
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { Select } from '@/components/ui/Select';
+import { StatusBadge } from '@/components/admin/ProductStatus';
 import { useAuth } from '@/contexts/AuthContext';
+import { PRODUCT_STATUSES, PRODUCT_STATUS_LABELS } from '@/lib/product-status';
+import { CatalogueStats, CountCheck, ProductSummary } from '@/types/product';
+import { Layers, Package, ImageIcon, AlertTriangle, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
 
-export default function HomePage() {
-  const { isAuthenticated, isLoading } = useAuth();
-  const router = useRouter();
+// Dates arrive as strings over JSON
+type DashboardStats = Omit<CatalogueStats, 'recently_created' | 'recently_updated' | 'single_image'> & {
+  recently_created: Summary[];
+  recently_updated: Summary[];
+  single_image: { total: number; products: Summary[] };
+};
+type Summary = Omit<ProductSummary, 'created_at' | 'updated_at'> & { created_at: string; updated_at: string };
 
-  useEffect(() => {
-    if (!isLoading) {
-      if (isAuthenticated) {
-        router.replace('/products');
+const rangeOptions = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+];
+
+const STATUS_CARD_STYLES = {
+  draft: 'border-amber-200 text-amber-700',
+  active: 'border-teal-200 text-teal-700',
+  inactive: 'border-slate-200 text-slate-600',
+  archived: 'border-rose-200 text-rose-700',
+};
+
+export default function DashboardPage() {
+  const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [days, setDays] = useState('30');
+  const [isLoading, setIsLoading] = useState(true);
+  const { hasPermission } = useAuth();
+
+  const fetchStats = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch(`/api/stats?days=${days}`);
+      const data = await res.json();
+      if (data.success) {
+        setStats(data.data);
       } else {
-        router.replace('/login');
+        toast.error(data.error || 'Failed to load dashboard');
       }
+    } catch (error) {
+      console.error('Error fetching stats:', error);
+      toast.error('Failed to load dashboard');
+    } finally {
+      setIsLoading(false);
     }
-  }, [isAuthenticated, isLoading, router]);
+  }, [days]);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats]);
+
+  if (!stats) {
+    return (
+      <AdminLayout title="Dashboard" requiredPermission="products:read">
+        <div className="flex flex-col items-center justify-center h-64 gap-4">
+          {isLoading ? (
+            <>
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-teal-500"></div>
+              <p className="text-slate-500">Loading dashboard...</p>
+            </>
+          ) : (
+            <p className="text-slate-500">Catalogue statistics are not available right now</p>
+          )}
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  const categoryNames = new Map(stats.categories.map((category) => [category._id, category.name]));
+  const maxPerDay = Math.max(...stats.created_per_day.map((day) => day.count), 1);
+  const createdInRange = stats.created_per_day.reduce((sum, day) => sum + day.count, 0);
+  const outOfSync = stats.categories.filter(
+    (category) => !isInSync(category) || category.subcategories.some((sub) => !isInSync(sub))
+  ).length;
+
+  const renderProductList = (products: Summary[], dateField: 'created_at' | 'updated_at', empty: string) =>
+    products.length === 0 ? (
+      <p className="text-sm text-slate-500 py-6 text-center">{empty}</p>
+    ) : (
+      <ul className="divide-y divide-slate-100">
+        {products.map((product) => (
+          <li key={product._id}>
+            <Link
+              href={`/products/${product._id}`}
+              className="flex items-center gap-3 py-3 hover:bg-slate-50 rounded-lg transition-colors"
+            >
+              <div className="w-10 h-10 rounded-lg overflow-hidden bg-slate-100 flex-shrink-0 ring-1 ring-slate-200">
+                {product.image_urls?.[0] ? (
+                  <img src={product.image_urls[0]} alt={product.product_name} className="w-full h-full object-cover" />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center text-slate-400">
+                    <Package className="w-5 h-5" />
+                  </div>
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-slate-800 truncate">{product.product_name}</p>
+                <p className="text-xs text-slate-500 truncate">
+                  {categoryNames.get(product.category_id) || 'Unknown'} · {new Date(product[dateField]).toLocaleString()}
+                </p>
+              </div>
+              <StatusBadge status={product.status} />
+            </Link>
+          </li>
+        ))}
+      </ul>
+    );
 
   return (
-    <div className="min-h-screen bg-background flex items-center justify-center">
-      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
-    </div>
+    <AdminLayout title="Dashboard" requiredPermission="products:read">
+      <div className="space-y-4 md:space-y-5">
+        {/* Totals */}
+        <div className="grid grid-cols-2 lg:grid-cols-5 gap-3 md:gap-4">
+          <Link
+            href="/products"
+            className="col-span-2 lg:col-span-1 bg-white rounded-2xl border-2 border-teal-500 p-4 md:p-5 shadow-sm hover:shadow-md transition-shadow"
+          >
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-slate-500 text-sm font-medium">Total Products</p>
+                <p className="text-3xl font-bold mt-1 text-slate-800">{stats.total}</p>
+              </div>
+              <Layers className="w-8 h-8 text-teal-600" />
+            </div>
+          </Link>
+          {PRODUCT_STATUSES.map((status) => (
+            <Link
+              key={status}
+              href={`/products?status=${status}`}
+              className={`bg-white rounded-2xl border-2 p-4 md:p-5 shadow-sm hover:shadow-md transition-shadow ${STATUS_CARD_STYLES[status]}`}
+            >
+              <p className="text-sm font-medium">{PRODUCT_STATUS_LABELS[status]}</p>
+              <p className="text-3xl font-bold mt-1 text-slate-800">{stats.by_status[status]}</p>
+            </Link>
+          ))}
+        </div>
+
+        {/* Products created over time */}
+        <div className="bg-white rounded-2xl border border-slate-200 p-4 md:p-6 shadow-sm">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+            <div>
+              <h2 className="text-lg font-semibold text-slate-800">Products Created</h2>
+              <p className="text-sm text-slate-500">{createdInRange} in this period</p>
+            </div>
+            <div className="flex items-center gap-3">
+              {isLoading && <Loader2 className="w-5 h-5 text-teal-500 animate-spin" />}
+              <Select value={days} onValueChange={setDays} options={rangeOptions} placeholder="Period" className="w-40" />
+            </div>
+          </div>
+          <div className="flex items-end gap-px h-40" role="img" aria-label="Products created per day">
+            {stats.created_per_day.map((day) => (
+              <div
+                key={day.date}
+                className="flex-1 h-full flex items-end"
+                title={`${day.date}: ${day.count} product(s)`}
+              >
+                <div
+                  className="w-full rounded-t bg-teal-500 hover:bg-teal-600 transition-colors"
+                  style={{ height: `${(day.count / maxPerDay) * 100}%`, minHeight: day.count > 0 ? 2 : 0 }}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-slate-400 mt-2">
+            <span>{stats.created_per_day[0]?.date}</span>
+            <span>{stats.created_per_day[stats.created_per_day.length - 1]?.date}</span>
+          </div>
+        </div>
+
+        {/* Recent activity */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 md:gap-5">
+          <div className="bg-white rounded-2xl border border-slate-200 p-4 md:p-6 shadow-sm">
+            <h2 className="text-lg font-semibold text-slate-800 mb-2">Recently Created</h2>
+            {renderProductList(stats.recently_created, 'created_at', 'No products yet')}
+          </div>
+          <div className="bg-white rounded-2xl border border-slate-200 p-4 md:p-6 shadow-sm">
+            <h2 className="text-lg font-semibold text-slate-800 mb-2">Recently Updated</h2>
+            {renderProductList(stats.recently_updated, 'updated_at', 'No products yet')}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 md:gap-5">
+          {/* Products per category */}
+          <div className="bg-white rounded-2xl border border-slate-200 p-4 md:p-6 shadow-sm">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-lg font-semibold text-slate-800">Products per Category</h2>
+              {outOfSync > 0 && (
+                hasPermission('taxonomy:write') ? (
+                  <Link
+                    href="/maintenance"
+                    className="inline-flex items-center gap-1 text-xs font-semibold text-amber-700 hover:text-amber-800 hover:underline"
+                  >
+                    <AlertTriangle className="w-4 h-4" />
+                    {outOfSync} out of sync · Reconcile
+                  </Link>
+                ) : (
+                  <span className="inline-flex items-center gap-1 text-xs font-semibold text-amber-700">
+                    <AlertTriangle className="w-4 h-4" />
+                    {outOfSync} out of sync
+                  </span>
+                )
+              )}
+            </div>
+            {stats.categories.length === 0 ? (
+              <p className="text-sm text-slate-500 py-6 text-center">No categories yet</p>
+            ) : (
+              <ul className="divide-y divide-slate-100">
+                {stats.categories.map((category) => (
+                  <li key={category._id} className="py-3">
+                    <CountRow check={category} href={`/products?category_id=${category._id}`} bold />
+                    {category.subcategories.length > 0 && (
+                      <ul className="mt-1 pl-4 space-y-1">
+                        {category.subcategories.map((sub) => (
+                          <li key={sub._id}>
+                            <CountRow
+                              check={sub}
+                              href={`/products?category_id=${category._id}&subcategory_id=${sub._id}`}
+                            />
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Products with a single image */}
+          <div className="bg-white rounded-2xl border border-slate-200 p-4 md:p-6 shadow-sm">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-lg font-semibold text-slate-800">Only One Image</h2>
+              <span className="inline-flex items-center gap-1 text-sm font-semibold text-slate-600">
+                <ImageIcon className="w-4 h-4" />
+                {stats.single_image.total}
+              </span>
+            </div>
+            {renderProductList(stats.single_image.products, 'updated_at', 'Every product has more than one image')}
+            {stats.single_image.total > stats.single_image.products.length && (
+              <p className="text-xs text-slate-500 mt-2">
+                Showing the {stats.single_image.products.length} most recently updated
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </AdminLayout>
   );
 }
+
+function isInSync(check: CountCheck) {
+  return check.product_count === check.actual_count;
+}
+
+// A stored product_count that disagrees with the aggregated count is shown next to it
+const CountRow = ({ check, href, bold = false }: { check: CountCheck; href: string; bold?: boolean }) => (
+  <div className="flex items-center justify-between gap-3 text-sm">
+    <Link
+      href={href}
+      className={`truncate hover:text-teal-600 transition-colors ${bold ? 'font-semibold text-slate-800' : 'text-slate-600'}`}
+    >
+      {check.name}
+    </Link>
+    <span className="flex items-center gap-2 flex-shrink-0">
+      {!isInSync(check) && (
+        <span
+          className="inline-flex items-center gap-1 text-xs text-amber-700"
+          title={`Stored count is ${check.product_count}, but ${check.actual_count} product(s) reference it`}
+        >
+          <AlertTriangle className="w-3.5 h-3.5" />
+          stored {check.product_count}
+        </span>
+      )}
+      <span className={bold ? 'font-semibold text-slate-800' : 'text-slate-600'}>{check.actual_count}</span>
+    </span>
+  </div>
+);
@@ -1,10 +1,16 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import { AdminLayout } from '@/components/admin/AdminLayout';
 import { ImageUploader } from '@/components/admin/ImageUploader';
+import { RevisionHistory } from '@/components/admin/RevisionHistory';
+import { StatusPicker } from '@/components/admin/ProductStatus';
 import { Select } from '@/components/ui/Select';
+import { FieldError, toFieldErrors } from '@/components/ui/FieldError';
+import { cn } from '@/lib/utils';
+import { PRODUCT_STATUS_TRANSITIONS } from '@/lib/product-status';
+import { ProductStatus } from '@/types/product';
 import { ArrowLeft, Save, X, Package, Loader2 } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -28,7 +34,7 @@ interface Product {
   image_urls: string[];
   category_id: string;
   subcategory_id: string;
-  status: string;
+  status: ProductStatus;
 }
 
 export default function ProductEditPage() {
@@ -42,6 +48,7 @@ export default function ProductEditPage() {
   const [categories, setCategories] = useState<Category[]>([]);
   const [subcategories, setSubcategories] = useState<Subcategory[]>([]);
   const [product, setProduct] = useState<Product | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
 
   const [formData, setFormData] = useState({
     product_name: '',
@@ -50,60 +57,60 @@ export default function ProductEditPage() {
     category_id: '',
     subcategory_id: '',
     images: [] as string[],
-    status: 'active',
+    status: 'active' as ProductStatus,
   });
 
   // Fetch product and categories
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        const [productRes, categoriesRes] = await Promise.all([
-          fetch(`/api/products/${productId}`),
-          fetch('/api/categories'),
-        ]);
-
-        const productData = await productRes.json();
-        const categoriesData = await categoriesRes.json();
-
-        if (productData.success && productData.data) {
-          const p = productData.data;
-          setProduct(p);
-          setFormData({
-            product_name: p.product_name || '',
-            product_title: p.product_title || '',
-            product_description: p.product_description || '',
-            category_id: p.category_id || '',
-            subcategory_id: p.subcategory_id || '',
-            images: p.image_urls || [],
-            status: p.status || 'active',
-          });
-
-          // Fetch subcategories for the product's category
-          if (p.category_id) {
-            const subRes = await fetch(`/api/subcategories/${p.category_id}`);
-            const subData = await subRes.json();
-            if (subData.success) {
-              setSubcategories(subData.data);
-            }
+  const fetchData = useCallback(async () => {
+    try {
+      const [productRes, categoriesRes] = await Promise.all([
+        fetch(`/api/products/${productId}`),
+        fetch('/api/categories'),
+      ]);
+
+      const productData = await productRes.json();
+      const categoriesData = await categoriesRes.json();
+
+      if (productData.success && productData.data) {
+        const p = productData.data;
+        setProduct(p);
+        setFormData({
+          product_name: p.product_name || '',
+          product_title: p.product_title || '',
+          product_description: p.product_description || '',
+          category_id: p.category_id || '',
+          subcategory_id: p.subcategory_id || '',
+          images: p.image_urls || [],
+          status: p.status || 'active',
+        });
+
+        // Fetch subcategories for the product's category
+        if (p.category_id) {
+          const subRes = await fetch(`/api/subcategories/${p.category_id}`);
+          const subData = await subRes.json();
+          if (subData.success) {
+            setSubcategories(subData.data);
           }
-        } else {
-          toast.error('Product not found');
-          router.push('/products');
         }
+      } else {
+        toast.error('Product not found');
+        router.push('/products');
+      }
 
-        if (categoriesData.success) {
-          setCategories(categoriesData.data);
-        }
-      } catch (error) {
-        console.error('Error fetching data:', error);
-        toast.error('Failed to load product');
-      } finally {
-        setIsLoading(false);
+      if (categoriesData.success) {
+        setCategories(categoriesData.data);
       }
-    };
+    } catch (error) {
+      console.error('Error fetching data:', error);
+      toast.error('Failed to load product');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [productId, router]);
 
+  useEffect(() => {
     fetchData();
-  }, [productId, router]);
+  }, [fetchData]);
 
   // Fetch subcategories when category changes
   useEffect(() => {
@@ -135,47 +142,70 @@ export default function ProductEditPage() {
     if (field === 'category_id') {
       setFormData((prev) => ({ ...prev, subcategory_id: '' }));
     }
+    // Editing a field clears its error; the API reports image problems under image_urls
+    const errorField = field === 'images' ? 'image_urls' : field;
+    setErrors((prev) => {
+      const next = { ...prev };
+      delete next[errorField];
+      return next;
+    });
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     // Validation
-    if (!formData.product_name || !formData.category_id || !formData.subcategory_id || !formData.product_description) {
-      toast.error('Please fill in all required fields.');
-      return;
-    }
-
-    if (formData.images.length < 1) {
-      toast.error('Please add at least one image.');
+    const clientErrors: Record<string, string> = {};
+    if (!formData.product_name.trim()) clientErrors.product_name = 'Product name is required';
+    if (!formData.category_id) clientErrors.category_id = 'Category is required';
+    if (!formData.subcategory_id) clientErrors.subcategory_id = 'Subcategory is required';
+    if (!formData.product_description.trim()) clientErrors.product_description = 'Description is required';
+    if (formData.images.length < 1) clientErrors.image_urls = 'At least one image is required';
+
+    if (Object.keys(clientErrors).length > 0) {
+      setErrors(clientErrors);
+      toast.error('Please fix the highlighted fields.');
       return;
     }
 
     setIsSubmitting(true);
 
     try {
+      const formDataToSend = new FormData();
+      formDataToSend.append('product_name', formData.product_name);
+      formDataToSend.append('product_title', formData.product_title || formData.product_name);
+      formDataToSend.append('product_description', formData.product_description);
+      formDataToSend.append('category_id', formData.category_id);
+      formDataToSend.append('subcategory_id', formData.subcategory_id);
+      formDataToSend.append('status', formData.status);
+
+      // Existing images are kept by URL; newly added ones are base64 and get uploaded as files
+      for (let i = 0; i < formData.images.length; i++) {
+        const image = formData.images[i];
+        if (image.startsWith('data:')) {
+          const res = await fetch(image);
+          const blob = await res.blob();
+          formDataToSend.append(`images[${i}]`, blob, `image_${i}.jpg`);
+        } else {
+          formDataToSend.append(`image_urls[${i}]`, image);
+        }
+      }
+
       const response = await fetch(`/api/products/${productId}`, {
         method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          product_name: formData.product_name,
-          product_title: formData.product_title || formData.product_name,
-          product_description: formData.product_description,
-          category_id: formData.category_id,
-          subcategory_id: formData.subcategory_id,
-          image_urls: formData.images,
-          status: formData.status,
-        }),
+        body: formDataToSend,
       });
 
       const result = await response.json();
 
       if (result.success) {
         toast.success(`${formData.product_name} has been updated successfully!`);
+        if (result.cleanup_failures?.length > 0) {
+          toast(`${result.cleanup_failures.length} removed image(s) could not be deleted from Cloudinary`, { icon: '⚠️' });
+        }
         router.push('/products');
       } else {
+        setErrors(toFieldErrors(result.errors));
         toast.error(result.error || 'Failed to update product');
       }
     } catch (error) {
@@ -190,6 +220,8 @@ export default function ProductEditPage() {
     router.push('/products');
   };
 
+  const categoryNames = Object.fromEntries(categories.map((cat) => [cat._id, cat.category_name]));
+
   const categoryOptions = categories.map((cat) => ({
     value: cat._id,
     label: cat.category_name,
@@ -202,7 +234,7 @@ export default function ProductEditPage() {
 
   if (isLoading) {
     return (
-      <AdminLayout title="Edit Product">
+      <AdminLayout title="Edit Product" requiredPermission="products:write">
         <div className="flex flex-col items-center justify-center h-64 gap-4">
           <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-teal-500"></div>
           <p className="text-slate-500">Loading product...</p>
@@ -229,7 +261,7 @@ export default function ProductEditPage() {
   }
 
   return (
-    <AdminLayout title="Edit Product">
+    <AdminLayout title="Edit Product" requiredPermission="products:write">
       <form onSubmit={handleSubmit} className="space-y-4 md:space-y-5">
         {/* Header Actions */}
         <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-sm">
@@ -277,6 +309,7 @@ export default function ProductEditPage() {
             onChange={(images) => handleChange('images', images)}
             maxImages={10}
           />
+          <FieldError message={errors.image_urls} />
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-5">
@@ -295,8 +328,12 @@ export default function ProductEditPage() {
                     placeholder="Enter product name"
                     value={formData.product_name}
                     onChange={(e) => handleChange('product_name', e.target.value)}
-                    className="w-full h-11 px-4 rounded-xl border-2 border-slate-200 bg-white text-slate-800 placeholder:text-slate-400 focus:outline-none focus:border-teal-500 transition-all"
+                    className={cn(
+                      'w-full h-11 px-4 rounded-xl border-2 bg-white text-slate-800 placeholder:text-slate-400 focus:outline-none focus:border-teal-500 transition-all',
+                      errors.product_name ? 'border-rose-500' : 'border-slate-200'
+                    )}
                   />
+                  <FieldError message={errors.product_name} />
                 </div>
 
                 <div className="space-y-2">
@@ -307,8 +344,12 @@ export default function ProductEditPage() {
                     placeholder="Enter product title"
                     value={formData.product_title}
                     onChange={(e) => handleChange('product_title', e.target.value)}
-                    className="w-full h-11 px-4 rounded-xl border-2 border-slate-200 bg-white text-slate-800 placeholder:text-slate-400 focus:outline-none focus:border-teal-500 transition-all"
+                    className={cn(
+                      'w-full h-11 px-4 rounded-xl border-2 bg-white text-slate-800 placeholder:text-slate-400 focus:outline-none focus:border-teal-500 transition-all',
+                      errors.product_title ? 'border-rose-500' : 'border-slate-200'
+                    )}
                   />
+                  <FieldError message={errors.product_title} />
                 </div>
 
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
@@ -322,6 +363,7 @@ export default function ProductEditPage() {
                       options={categoryOptions}
                       placeholder="Select category"
                     />
+                    <FieldError message={errors.category_id} />
                   </div>
 
                   <div className="space-y-2">
@@ -342,6 +384,7 @@ export default function ProductEditPage() {
                         </div>
                       )}
                     </div>
+                    <FieldError message={errors.subcategory_id} />
                   </div>
                 </div>
 
@@ -354,11 +397,27 @@ export default function ProductEditPage() {
                     value={formData.product_description}
                     onChange={(e) => handleChange('product_description', e.target.value)}
                     rows={4}
-                    className="w-full px-4 py-3 rounded-xl border-2 border-slate-200 bg-white text-slate-800 placeholder:text-slate-400 focus:outline-none focus:border-teal-500 resize-none transition-all"
+                    className={cn(
+                      'w-full px-4 py-3 rounded-xl border-2 bg-white text-slate-800 placeholder:text-slate-400 focus:outline-none focus:border-teal-500 resize-none transition-all',
+                      errors.product_description ? 'border-rose-500' : 'border-slate-200'
+                    )}
                   />
+                  <FieldError message={errors.product_description} />
+                </div>
+
+                <div className="space-y-2">
+                  <label className="block text-sm font-semibold text-slate-700">Status</label>
+                  <StatusPicker
+                    value={formData.status}
+                    onChange={(status) => handleChange('status', status)}
+                    allowed={PRODUCT_STATUS_TRANSITIONS[product.status] || []}
+                  />
+                  <FieldError message={errors.status} />
                 </div>
               </div>
             </div>
+
+            <RevisionHistory productId={productId} categoryNames={categoryNames} onRestored={fetchData} />
           </div>
 
           {/* Right Column - Images (Desktop Only) */}
@@ -370,6 +429,7 @@ export default function ProductEditPage() {
                 onChange={(images) => handleChange('images', images)}
                 maxImages={10}
               />
+              <FieldError message={errors.image_urls} />
             </div>
           </div>
         </div>
@@ -0,0 +1,295 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { ArrowLeft, FileSpreadsheet, Upload, CheckCircle2, AlertCircle, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface ImportRowInput {
+  row: number;
+  product_name: string;
+  image_urls: string[];
+  [key: string]: unknown;
+}
+
+interface ImportRowResult {
+  row: number;
+  input: ImportRowInput;
+  errors: { field: string; message: string }[];
+  category_name?: string;
+  subcategory_name?: string;
+  product_id?: string;
+}
+
+const COLUMNS = [
+  { name: 'name', description: 'Product name (required)' },
+  { name: 'title', description: 'Product title (defaults to the name)' },
+  { name: 'description', description: 'Product description (required)' },
+  { name: 'category / category_id', description: 'Category name or ID (required)' },
+  { name: 'subcategory / subcategory_id', description: 'Subcategory name or ID within that category (required)' },
+  { name: 'image_urls', description: '1-10 image URLs separated by | or spaces; they are copied to Cloudinary' },
+];
+
+export default function ProductImportPage() {
+  const router = useRouter();
+  const [file, setFile] = useState<File | null>(null);
+  const [rows, setRows] = useState<ImportRowResult[]>([]);
+  const [batchSize, setBatchSize] = useState(5);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importedCount, setImportedCount] = useState(0);
+  const [hasImported, setHasImported] = useState(false);
+
+  const validRows = rows.filter((row) => row.errors.length === 0 && !row.product_id);
+  const invalidCount = rows.filter((row) => row.errors.length > 0).length;
+  const createdCount = rows.filter((row) => row.product_id).length;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] || null);
+    setRows([]);
+    setHasImported(false);
+  };
+
+  const handlePreview = async () => {
+    if (!file) {
+      toast.error('Please choose a CSV or XLSX file.');
+      return;
+    }
+
+    setIsPreviewing(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const res = await fetch('/api/products/import', { method: 'POST', body: formData });
+      const result = await res.json();
+
+      if (result.success) {
+        setRows(result.data);
+        setBatchSize(result.batch_size);
+        setHasImported(false);
+      } else {
+        toast.error(result.error || 'Failed to read the file');
+      }
+    } catch (error) {
+      console.error('Error previewing import:', error);
+      toast.error('Failed to read the file');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const toImport = validRows;
+    if (toImport.length === 0) return;
+
+    setIsImporting(true);
+    setImportedCount(0);
+
+    try {
+      // Small batches keep each request short and let the progress update as rows are created
+      for (let i = 0; i < toImport.length; i += batchSize) {
+        const batch = toImport.slice(i, i + batchSize);
+        const res = await fetch('/api/products/import', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ rows: batch.map((row) => row.input) }),
+        });
+        const result = await res.json();
+
+        if (!result.success) {
+          toast.error(result.error || 'Import stopped because of an error');
+          break;
+        }
+
+        const batchResults = new Map<number, ImportRowResult>(
+          result.data.map((row: ImportRowResult) => [row.row, row])
+        );
+        setRows((prev) => prev.map((row) => batchResults.get(row.row) || row));
+        setImportedCount(i + batch.length);
+      }
+
+      setHasImported(true);
+      toast.success('Import finished');
+    } catch (error) {
+      console.error('Error importing products:', error);
+      toast.error('Import stopped because of an error');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <AdminLayout title="Import Products" requiredPermission="products:write">
+      <div className="space-y-4 md:space-y-5">
+        {/* Header */}
+        <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-sm">
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={() => router.push('/products')}
+              className="p-2.5 hover:bg-slate-100 rounded-xl transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5 text-slate-600" />
+            </button>
+            <h2 className="text-lg font-bold text-slate-800">Import Products from a Spreadsheet</h2>
+          </div>
+        </div>
+
+        {/* File Picker */}
+        <div className="bg-white rounded-2xl border border-slate-200 p-4 md:p-6 shadow-sm space-y-5">
+          <div>
+            <h3 className="text-base font-bold text-slate-800 mb-3">Columns</h3>
+            <p className="text-sm text-slate-500 mb-3">
+              The first row must be a header. Columns are matched by name, ignoring case.
+            </p>
+            <ul className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {COLUMNS.map((column) => (
+                <li key={column.name} className="text-sm">
+                  <span className="font-mono text-teal-700">{column.name}</span>
+                  <span className="text-slate-500"> – {column.description}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-3">
+            <label className="flex-1 h-11 px-4 rounded-xl border-2 border-dashed border-slate-300 bg-white text-slate-600 hover:border-teal-500 transition-all flex items-center gap-3 cursor-pointer">
+              <FileSpreadsheet className="w-5 h-5 text-slate-400" />
+              <span className="truncate">{file ? file.name : 'Choose a .csv or .xlsx file'}</span>
+              <input
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                onChange={handleFileChange}
+                disabled={isImporting}
+                className="hidden"
+              />
+            </label>
+            <button
+              type="button"
+              onClick={handlePreview}
+              disabled={!file || isPreviewing || isImporting}
+              className="h-11 px-5 bg-white border-2 border-teal-500 text-teal-600 rounded-xl font-semibold hover:bg-teal-50 hover:border-teal-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {isPreviewing ? <Loader2 className="w-5 h-5 animate-spin" /> : <FileSpreadsheet className="w-5 h-5" />}
+              <span>{isPreviewing ? 'Checking...' : 'Preview'}</span>
+            </button>
+          </div>
+        </div>
+
+        {rows.length > 0 && (
+          <>
+            {/* Summary */}
+            <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-sm">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <p className="text-sm text-slate-600">
+                  <span className="font-semibold text-slate-800">{rows.length}</span> rows ·{' '}
+                  <span className="font-semibold text-teal-600">{validRows.length}</span> ready ·{' '}
+                  <span className="font-semibold text-rose-600">{invalidCount}</span> with errors
+                  {createdCount > 0 && (
+                    <> · <span className="font-semibold text-slate-800">{createdCount}</span> created</>
+                  )}
+                  {isImporting && (
+                    <> · importing {importedCount} of {validRows.length + importedCount}...</>
+                  )}
+                </p>
+
+                {hasImported && validRows.length === 0 ? (
+                  <button
+                    type="button"
+                    onClick={() => router.push('/products')}
+                    className="h-11 px-5 bg-white border-2 border-teal-500 text-teal-600 rounded-xl font-semibold hover:bg-teal-50 hover:border-teal-600 transition-all flex items-center justify-center gap-2"
+                  >
+                    View Products
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={handleImport}
+                    disabled={validRows.length === 0 || isImporting}
+                    className="h-11 px-5 bg-white border-2 border-teal-500 text-teal-600 rounded-xl font-semibold hover:bg-teal-50 hover:border-teal-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                  >
+                    {isImporting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Upload className="w-5 h-5" />}
+                    <span>
+                      {isImporting ? 'Importing...' : `Import ${validRows.length} Product${validRows.length === 1 ? '' : 's'}`}
+                    </span>
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* Rows */}
+            <div className="bg-white rounded-2xl border border-slate-200 overflow-hidden shadow-sm">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-slate-50 border-b border-slate-200">
+                    <tr>
+                      <th className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4">
+                        Row
+                      </th>
+                      <th className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4">
+                        Product
+                      </th>
+                      <th className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4">
+                        Category
+                      </th>
+                      <th className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4">
+                        Images
+                      </th>
+                      <th className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4">
+                        Status
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {rows.map((row) => (
+                      <tr key={row.row} className="align-top hover:bg-slate-50 transition-colors">
+                        <td className="px-6 py-4 text-sm text-slate-500">{row.row}</td>
+                        <td className="px-6 py-4 text-sm font-semibold text-slate-800">
+                          {row.input.product_name || <span className="text-slate-400">—</span>}
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          {row.category_name ? (
+                            <>
+                              <p className="text-teal-600 font-medium">{row.category_name}</p>
+                              <p className="text-slate-500 text-xs">{row.subcategory_name}</p>
+                            </>
+                          ) : (
+                            <span className="text-slate-400">—</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-slate-700">{row.input.image_urls.length}</td>
+                        <td className="px-6 py-4 text-sm">
+                          {row.product_id ? (
+                            <span className="flex items-center gap-2 text-teal-600 font-medium">
+                              <CheckCircle2 className="w-4 h-4" />
+                              Created {row.product_id}
+                            </span>
+                          ) : row.errors.length > 0 ? (
+                            <ul className="space-y-1">
+                              {row.errors.map((error, index) => (
+                                <li key={index} className="flex items-start gap-2 text-rose-600">
+                                  <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                                  <span>{error.message}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <span className="text-slate-500">Ready</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
@@ -4,7 +4,12 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { AdminLayout } from '@/components/admin/AdminLayout';
 import { ImageUploader } from '@/components/admin/ImageUploader';
+import { StatusPicker } from '@/components/admin/ProductStatus';
 import { Select } from '@/components/ui/Select';
+import { FieldError, toFieldErrors } from '@/components/ui/FieldError';
+import { cn } from '@/lib/utils';
+import { INITIAL_PRODUCT_STATUSES } from '@/lib/product-status';
+import { ProductStatus } from '@/types/product';
 import { ArrowLeft, Save, X } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -24,6 +29,7 @@ export default function ProductNewPage() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [categories, setCategories] = useState<Category[]>([]);
   const [subcategories, setSubcategories] = useState<Subcategory[]>([]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
 
   const [formData, setFormData] = useState({
     product_name: '',
@@ -32,6 +38,7 @@ export default function ProductNewPage() {
     category_id: '',
     subcategory_id: '',
     images: [] as string[],
+    status: 'active' as ProductStatus,
   });
 
   // Fetch categories
@@ -77,29 +84,34 @@ export default function ProductNewPage() {
     if (field === 'category_id') {
       setFormData((prev) => ({ ...prev, subcategory_id: '' }));
     }
+    // Editing a field clears its error
+    setErrors((prev) => {
+      const next = { ...prev };
+      delete next[field];
+      return next;
+    });
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     // Validation
-    if (!formData.product_name || !formData.category_id || !formData.subcategory_id || !formData.product_description) {
-      toast.error('Please fill in all required fields.');
-      return;
-    }
-
-    if (formData.images.length < 1) {
-      toast.error('Please add at least one image.');
+    const clientErrors: Record<string, string> = {};
+    if (!formData.product_name.trim()) clientErrors.product_name = 'Product name is required';
+    if (!formData.category_id) clientErrors.category_id = 'Category is required';
+    if (!formData.subcategory_id) clientErrors.subcategory_id = 'Subcategory is required';
+    if (!formData.product_description.trim()) clientErrors.product_description = 'Description is required';
+    if (formData.images.length < 1) clientErrors.images = 'At least one image is required';
+
+    if (Object.keys(clientErrors).length > 0) {
+      setErrors(clientErrors);
+      toast.error('Please fix the highlighted fields.');
       return;
     }
 
     setIsSubmitting(true);
 
     try {
-      // Get category and subcategory names
-      const selectedCategory = categories.find((c) => c._id === formData.category_id);
-      const selectedSubcategory = subcategories.find((s) => s._id === formData.subcategory_id);
-
       // Convert base64 images to files
       const formDataToSend = new FormData();
       formDataToSend.append('product_name', formData.product_name);
@@ -107,8 +119,7 @@ export default function ProductNewPage() {
       formDataToSend.append('product_description', formData.product_description);
       formDataToSend.append('category_id', formData.category_id);
       formDataToSend.append('subcategory_id', formData.subcategory_id);
-      formDataToSend.append('category_name', selectedCategory?.category_name || '');
-      formDataToSend.append('subcategory_name', selectedSubcategory?.subcategory_name || '');
+      formDataToSend.append('status', formData.status);
 
       // Convert base64 to blob and append
       for (let i = 0; i < formData.images.length; i++) {
@@ -129,6 +140,7 @@ export default function ProductNewPage() {
         toast.success(`${formData.product_name} has been created successfully!`);
         router.push('/products');
       } else {
+        setErrors(toFieldErrors(result.errors));
         toast.error(result.error || 'Failed to create product');
       }
     } catch (error) {
@@ -154,7 +166,7 @@ export default function ProductNewPage() {
   }));
 
   return (
-    <AdminLayout title="Add Product">
+    <AdminLayout title="Add Product" requiredPermission="products:write">
       <form onSubmit={handleSubmit} className="space-y-4 md:space-y-5">
         {/* Header Actions */}
         <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-sm">
@@ -200,6 +212,7 @@ export default function ProductNewPage() {
             onChange={(images) => handleChange('images', images)}
             maxImages={10}
           />
+          <FieldError message={errors.images} />
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-5">
@@ -218,8 +231,12 @@ export default function ProductNewPage() {
                     placeholder="Enter product name"
                     value={formData.product_name}
                     onChange={(e) => handleChange('product_name', e.target.value)}
-                    className="w-full h-11 px-4 rounded-xl border-2 border-slate-200 bg-white text-slate-800 placeholder:text-slate-400 focus:outline-none focus:border-teal-500 transition-all"
+                    className={cn(
+                      'w-full h-11 px-4 rounded-xl border-2 bg-white text-slate-800 placeholder:text-slate-400 focus:outline-none focus:border-teal-500 transition-all',
+                      errors.product_name ? 'border-rose-500' : 'border-slate-200'
+                    )}
                   />
+                  <FieldError message={errors.product_name} />
                 </div>
 
                 <div className="space-y-2">
@@ -230,8 +247,12 @@ export default function ProductNewPage() {
                     placeholder="Enter product title"
                     value={formData.product_title}
                     onChange={(e) => handleChange('product_title', e.target.value)}
-                    className="w-full h-11 px-4 rounded-xl border-2 border-slate-200 bg-white text-slate-800 placeholder:text-slate-400 focus:outline-none focus:border-teal-500 transition-all"
+                    className={cn(
+                      'w-full h-11 px-4 rounded-xl border-2 bg-white text-slate-800 placeholder:text-slate-400 focus:outline-none focus:border-teal-500 transition-all',
+                      errors.product_title ? 'border-rose-500' : 'border-slate-200'
+                    )}
                   />
+                  <FieldError message={errors.product_title} />
                 </div>
 
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
@@ -245,6 +266,7 @@ export default function ProductNewPage() {
                       options={categoryOptions}
                       placeholder="Select category"
                     />
+                    <FieldError message={errors.category_id} />
                   </div>
 
                   <div className="space-y-2">
@@ -258,6 +280,7 @@ export default function ProductNewPage() {
                       placeholder="Select subcategory"
                       disabled={!formData.category_id}
                     />
+                    <FieldError message={errors.subcategory_id} />
                   </div>
                 </div>
 
@@ -270,8 +293,23 @@ export default function ProductNewPage() {
                     value={formData.product_description}
                     onChange={(e) => handleChange('product_description', e.target.value)}
                     rows={4}
-                    className="w-full px-4 py-3 rounded-xl border-2 border-slate-200 bg-white text-slate-800 placeholder:text-slate-400 focus:outline-none focus:border-teal-500 resize-none transition-all"
+                    className={cn(
+                      'w-full px-4 py-3 rounded-xl border-2 bg-white text-slate-800 placeholder:text-slate-400 focus:outline-none focus:border-teal-500 resize-none transition-all',
+                      errors.product_description ? 'border-rose-500' : 'border-slate-200'
+                    )}
+                  />
+                  <FieldError message={errors.product_description} />
+                </div>
+
+                <div className="space-y-2">
+                  <label className="block text-sm font-semibold text-slate-700">Status</label>
+                  <StatusPicker
+                    value={formData.status}
+                    onChange={(status) => handleChange('status', status)}
+                    allowed={INITIAL_PRODUCT_STATUSES}
                   />
+                  <p className="text-xs text-slate-500">Save as a draft to finish it later; it can be activated from the edit page.</p>
+                  <FieldError message={errors.status} />
                 </div>
               </div>
             </div>
@@ -286,6 +324,7 @@ export default function ProductNewPage() {
                 onChange={(images) => handleChange('images', images)}
                 maxImages={10}
               />
+              <FieldError message={errors.images} />
             </div>
           </div>
         </div>
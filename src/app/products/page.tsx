@@ -1,10 +1,27 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { useRouter } from 'next/navigation';
+import { useState, useEffect, useCallback, useRef, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { AdminLayout } from '@/components/admin/AdminLayout';
 import { Select } from '@/components/ui/Select';
-import { Search, Plus, Edit, Trash2, Package, ChevronLeft, ChevronRight, Layers, Loader2 } from 'lucide-react';
+import { BulkActionsBar, BulkSelection } from '@/components/admin/BulkActionsBar';
+import { StatusBadge } from '@/components/admin/ProductStatus';
+import { Highlight, searchExcerpt } from '@/components/ui/Highlight';
+import { PRODUCT_STATUSES, PRODUCT_STATUS_LABELS } from '@/lib/product-status';
+import {
+  DEFAULT_PAGE_SIZE,
+  DEFAULT_SORT_ORDERS,
+  PAGE_SIZES,
+  PRODUCT_SORT_FIELDS,
+  PRODUCT_SORT_LABELS,
+  ProductSortField,
+  SortOrder,
+  isProductSortField,
+  isSortOrder,
+} from '@/lib/product-list-options';
+import { ProductStatus } from '@/types/product';
+import { useAuth } from '@/contexts/AuthContext';
+import { Search, Plus, Edit, Trash2, Package, ChevronLeft, ChevronRight, Layers, Loader2, Download, ArrowUp, ArrowDown, ArrowUpDown } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 interface Product {
@@ -16,7 +33,10 @@ interface Product {
   image_urls: string[];
   category_id: string;
   subcategory_id: string;
-  status: string;
+  status: ProductStatus;
+  image_count: number;
+  created_at: string;
+  updated_at: string;
 }
 
 interface Category {
@@ -37,38 +57,110 @@ interface Pagination {
   totalPages: number;
 }
 
-const ITEMS_PER_PAGE = 10;
+const sortOptions = [
+  { value: 'default', label: 'Default order' },
+  ...PRODUCT_SORT_FIELDS.map((field) => ({ value: field, label: PRODUCT_SORT_LABELS[field] })),
+];
 
+const viewOptions = [
+  { value: 'pages', label: 'Page numbers' },
+  { value: 'scroll', label: 'Infinite scroll' },
+];
+
+const pageSizeOptions = PAGE_SIZES.map((size) => ({ value: size.toString(), label: `${size} per page` }));
+
+const statusOptions = [
+  { value: 'all', label: 'All Statuses' },
+  ...PRODUCT_STATUSES.map((status) => ({ value: status, label: PRODUCT_STATUS_LABELS[status] })),
+];
+
+const exportFormatOptions = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'json', label: 'JSON' },
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+];
+
+// useSearchParams needs a Suspense boundary so the rest of the page can still prerender
 export default function ProductListPage() {
+  return (
+    <Suspense>
+      <ProductList />
+    </Suspense>
+  );
+}
+
+function ProductList() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const { hasPermission } = useAuth();
   const [products, setProducts] = useState<Product[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [filterSubcategories, setFilterSubcategories] = useState<Subcategory[]>([]);
   const [allSubcategories, setAllSubcategories] = useState<Subcategory[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isPageLoading, setIsPageLoading] = useState(false);
-  const [search, setSearch] = useState('');
-  const [debouncedSearch, setDebouncedSearch] = useState('');
-  const [categoryFilter, setCategoryFilter] = useState('all');
-  const [subcategoryFilter, setSubcategoryFilter] = useState('all');
-  const [currentPage, setCurrentPage] = useState(1);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  // Bumped by every fresh fetch of the list; a response that started under an older value
+  // belongs to a previous query and is dropped
+  const listGenerationRef = useRef(0);
+
+  // Filters, sort, view, page and page size live in the query string so a view can be bookmarked
+  const debouncedSearch = searchParams.get('search') || '';
+  const categoryFilter = searchParams.get('category_id') || 'all';
+  const subcategoryFilter = searchParams.get('subcategory_id') || 'all';
+  const statusFilter = searchParams.get('status') || 'all';
+  const currentPage = Math.max(parseInt(searchParams.get('page') || '') || 1, 1);
+  const isScrollView = searchParams.get('view') === 'scroll';
+  const pageSize = PAGE_SIZES.find((size) => size.toString() === searchParams.get('limit')) || DEFAULT_PAGE_SIZE;
+  const sortParam = searchParams.get('sort') || '';
+  const sortField: ProductSortField | null = isProductSortField(sortParam) ? sortParam : null;
+  const orderParam = searchParams.get('order') || '';
+  const sortOrder: SortOrder | null = sortField
+    ? (isSortOrder(orderParam) ? orderParam : DEFAULT_SORT_ORDERS[sortField])
+    : null;
+
+  const [search, setSearch] = useState(debouncedSearch);
   const [pagination, setPagination] = useState<Pagination>({
     total: 0,
     page: 1,
-    limit: ITEMS_PER_PAGE,
+    limit: pageSize,
     totalPages: 0
   });
   const [deletingProductId, setDeletingProductId] = useState<string | null>(null);
   const [editingProductId, setEditingProductId] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState('csv');
+  const [isExporting, setIsExporting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [selectAllMatching, setSelectAllMatching] = useState(false);
+
+  // Writes query string changes; anything other than moving between pages starts from page 1
+  const updateQuery = useCallback((changes: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams.toString());
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null || value === '' || value === 'all') {
+        params.delete(key);
+      } else {
+        params.set(key, value);
+      }
+    }
+    if (!('page' in changes)) {
+      params.delete('page');
+    }
+
+    const query = params.toString();
+    router.replace(query ? `/products?${query}` : '/products', { scroll: false });
+  }, [router, searchParams]);
 
   // Debounce search input
   useEffect(() => {
+    if (search.trim() === debouncedSearch) return;
     const timer = setTimeout(() => {
-      setDebouncedSearch(search);
-      setCurrentPage(1); // Reset to page 1 on search
+      updateQuery({ search: search.trim() });
     }, 300);
     return () => clearTimeout(timer);
-  }, [search]);
+  }, [search, debouncedSearch, updateQuery]);
 
   // Fetch categories and all subcategories on mount
   useEffect(() => {
@@ -96,55 +188,127 @@ export default function ProductListPage() {
     fetchInitialData();
   }, []);
 
-  // Fetch products with pagination
+  // The list's filters and sort as API query parameters
+  const getQueryParams = useCallback(() => {
+    const params = new URLSearchParams();
+    if (debouncedSearch) {
+      params.append('search', debouncedSearch);
+    }
+    if (categoryFilter !== 'all') {
+      params.append('category_id', categoryFilter);
+    }
+    if (subcategoryFilter !== 'all') {
+      params.append('subcategory_id', subcategoryFilter);
+    }
+    if (statusFilter !== 'all') {
+      params.append('status', statusFilter);
+    }
+    if (sortField && sortOrder) {
+      params.append('sort', sortField);
+      params.append('order', sortOrder);
+    }
+    return params;
+  }, [debouncedSearch, categoryFilter, subcategoryFilter, statusFilter, sortField, sortOrder]);
+
+  // Fetch products with pagination; in the scroll view this restarts from the first rows
   const fetchProducts = useCallback(async (page: number, showLoader = true) => {
+    const generation = ++listGenerationRef.current;
     if (showLoader) {
       setIsPageLoading(true);
     }
 
     try {
-      const params = new URLSearchParams({
-        page: page.toString(),
-        limit: ITEMS_PER_PAGE.toString(),
-      });
-
-      if (debouncedSearch) {
-        params.append('search', debouncedSearch);
-      }
-      if (categoryFilter !== 'all') {
-        params.append('category_id', categoryFilter);
-      }
-      if (subcategoryFilter !== 'all') {
-        params.append('subcategory_id', subcategoryFilter);
+      const params = getQueryParams();
+      params.set('limit', pageSize.toString());
+      if (isScrollView) {
+        params.set('cursor', '');
+      } else {
+        params.set('page', page.toString());
       }
 
       const res = await fetch(`/api/products?${params.toString()}`);
       const data = await res.json();
+      if (generation !== listGenerationRef.current) return;
 
       if (data.success) {
         setProducts(data.data);
-        setPagination(data.pagination);
+        if (isScrollView) {
+          setNextCursor(data.next_cursor);
+          setPagination({
+            total: data.total,
+            page: 1,
+            limit: pageSize,
+            totalPages: Math.ceil(data.total / pageSize)
+          });
+        } else {
+          setPagination(data.pagination);
+        }
+        // Selections only ever cover the rows currently shown (or the whole filtered set)
+        setSelectedIds([]);
+        setSelectAllMatching(false);
       }
     } catch (error) {
+      if (generation !== listGenerationRef.current) return;
       console.error('Error fetching products:', error);
       toast.error('Failed to load products');
     } finally {
-      setIsLoading(false);
-      setIsPageLoading(false);
+      if (generation === listGenerationRef.current) {
+        setIsLoading(false);
+        setIsPageLoading(false);
+      }
     }
-  }, [debouncedSearch, categoryFilter, subcategoryFilter]);
-
-  // Reset page and fetch when filters change
-  useEffect(() => {
-    setCurrentPage(1);
-    // Fetch will be triggered by the currentPage change
-  }, [debouncedSearch, categoryFilter, subcategoryFilter]);
+  }, [getQueryParams, pageSize, isScrollView]);
 
-  // Fetch products when page changes
+  // Fetch products whenever the page or the query changes
   useEffect(() => {
     fetchProducts(currentPage);
   }, [currentPage, fetchProducts]);
 
+  // Appends the rows after the last one shown (scroll view only)
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+
+    const generation = listGenerationRef.current;
+    setIsLoadingMore(true);
+    try {
+      const params = getQueryParams();
+      params.set('limit', pageSize.toString());
+      params.set('cursor', nextCursor);
+
+      const res = await fetch(`/api/products?${params.toString()}`);
+      const data = await res.json();
+      // The filters, search or sort changed while this page was loading
+      if (generation !== listGenerationRef.current) return;
+
+      if (data.success) {
+        setProducts((prev) => [...prev, ...data.data]);
+        setNextCursor(data.next_cursor);
+      } else {
+        toast.error(data.error || 'Failed to load more products');
+      }
+    } catch (error) {
+      if (generation !== listGenerationRef.current) return;
+      console.error('Error loading more products:', error);
+      toast.error('Failed to load more products');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [nextCursor, isLoadingMore, getQueryParams, pageSize]);
+
+  // Load the next rows once the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!isScrollView || !nextCursor || !sentinel) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        loadMore();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [isScrollView, nextCursor, loadMore]);
+
   // Fetch filter subcategories when category changes
   useEffect(() => {
     const fetchSubcategories = async () => {
@@ -168,8 +332,34 @@ export default function ProductListPage() {
   }, [categoryFilter]);
 
   const handleCategoryChange = (value: string) => {
-    setCategoryFilter(value);
-    setSubcategoryFilter('all');
+    updateQuery({ category_id: value, subcategory_id: null });
+  };
+
+  const handleSort = (field: ProductSortField) => {
+    const order = field === sortField
+      ? (sortOrder === 'asc' ? 'desc' : 'asc')
+      : DEFAULT_SORT_ORDERS[field];
+    updateQuery({ sort: field, order });
+  };
+
+  const renderSortableHeader = (field: ProductSortField, label: string) => {
+    const SortIcon = sortField !== field ? ArrowUpDown : sortOrder === 'asc' ? ArrowUp : ArrowDown;
+    return (
+      <th
+        className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4"
+        aria-sort={sortField === field ? (sortOrder === 'asc' ? 'ascending' : 'descending') : 'none'}
+      >
+        <button
+          onClick={() => handleSort(field)}
+          className={`inline-flex items-center gap-1 uppercase tracking-wider hover:text-slate-800 transition-colors ${
+            sortField === field ? 'text-teal-600' : ''
+          }`}
+        >
+          {label}
+          <SortIcon className="w-3.5 h-3.5" />
+        </button>
+      </th>
+    );
   };
 
   const getCategoryName = (categoryId: string) => {
@@ -183,7 +373,7 @@ export default function ProductListPage() {
   };
 
   const handleDelete = async (productId: string, productName: string) => {
-    if (!confirm(`Are you sure you want to delete "${productName}"?`)) {
+    if (!confirm(`Move "${productName}" to the trash? It can be restored from the Trash page.`)) {
       return;
     }
 
@@ -194,7 +384,7 @@ export default function ProductListPage() {
       });
 
       if (res.ok) {
-        toast.success('Product deleted successfully');
+        toast.success('Product moved to trash');
         // Refresh current page
         fetchProducts(currentPage, false);
       } else {
@@ -208,6 +398,81 @@ export default function ProductListPage() {
     }
   };
 
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      // Same filters and order as the list, so the file holds exactly what the admin is looking at
+      const params = getQueryParams();
+      params.set('format', exportFormat);
+
+      const res = await fetch(`/api/products/export?${params.toString()}`);
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        toast.error(data?.error || 'Failed to export products');
+        return;
+      }
+
+      const filename = res.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1]
+        || `products.${exportFormat}`;
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting products:', error);
+      toast.error('Failed to export products');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const canSelect = hasPermission('products:write');
+  const allOnPageSelected = products.length > 0 && products.every((p) => selectedIds.includes(p._id));
+
+  const toggleSelected = (productId: string) => {
+    setSelectAllMatching(false);
+    setSelectedIds((prev) =>
+      prev.includes(productId) ? prev.filter((id) => id !== productId) : [...prev, productId]
+    );
+  };
+
+  const toggleSelectPage = () => {
+    setSelectAllMatching(false);
+    setSelectedIds(allOnPageSelected ? [] : products.map((p) => p._id));
+  };
+
+  const clearSelection = () => {
+    setSelectedIds([]);
+    setSelectAllMatching(false);
+  };
+
+  const bulkSelection: BulkSelection = selectAllMatching
+    ? {
+        filters: {
+          search: debouncedSearch || undefined,
+          category_id: categoryFilter !== 'all' ? categoryFilter : undefined,
+          subcategory_id: subcategoryFilter !== 'all' ? subcategoryFilter : undefined,
+          status: statusFilter !== 'all' ? statusFilter : undefined,
+        },
+      }
+    : { product_ids: selectedIds };
+
+  // Search also matches title and description, so show where the match is when it isn't the name
+  const renderSearchMatch = (product: Product) => {
+    if (!debouncedSearch || searchExcerpt(product.product_name, debouncedSearch)) {
+      return null;
+    }
+    const excerpt = searchExcerpt(product.product_title, debouncedSearch)
+      || searchExcerpt(product.product_description, debouncedSearch);
+    return excerpt && (
+      <p className="text-xs text-slate-500 mt-1 line-clamp-2">
+        <Highlight text={excerpt} search={debouncedSearch} />
+      </p>
+    );
+  };
+
   const handleEdit = (productId: string) => {
     setEditingProductId(productId);
     router.push(`/products/${productId}`);
@@ -225,14 +490,14 @@ export default function ProductListPage() {
 
   const goToPage = (page: number) => {
     if (page >= 1 && page <= pagination.totalPages && page !== currentPage) {
-      setCurrentPage(page);
+      updateQuery({ page: page === 1 ? null : page.toString() });
       window.scrollTo({ top: 0, behavior: 'smooth' });
     }
   };
 
   if (isLoading) {
     return (
-      <AdminLayout title="Product List">
+      <AdminLayout title="Product List" requiredPermission="products:read">
         <div className="flex flex-col items-center justify-center h-64 gap-4">
           <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-teal-500"></div>
           <p className="text-slate-500">Loading products...</p>
@@ -242,7 +507,7 @@ export default function ProductListPage() {
   }
 
   return (
-    <AdminLayout title="Product List">
+    <AdminLayout title="Product List" requiredPermission="products:read">
       <div className="space-y-4 md:space-y-5">
         {/* Stats Card */}
         <div className="bg-white rounded-2xl border-2 border-teal-500 p-4 md:p-6 shadow-sm">
@@ -250,7 +515,7 @@ export default function ProductListPage() {
             <div>
               <p className="text-slate-500 text-sm font-medium">Total Products</p>
               <p className="text-3xl md:text-4xl font-bold mt-1 text-slate-800">{pagination.total}</p>
-              {(debouncedSearch || categoryFilter !== 'all' || subcategoryFilter !== 'all') && (
+              {(debouncedSearch || categoryFilter !== 'all' || subcategoryFilter !== 'all' || statusFilter !== 'all') && (
                 <p className="text-slate-500 text-sm mt-1">
                   Filtered results
                 </p>
@@ -268,7 +533,7 @@ export default function ProductListPage() {
           <div className="relative w-full mb-4">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
             <input
-              placeholder="Search products..."
+              placeholder="Search name, title or description..."
               value={search}
               onChange={(e) => setSearch(e.target.value)}
               className="w-full h-11 pl-11 pr-4 rounded-xl border-2 border-slate-200 bg-white text-slate-800 placeholder:text-slate-400 focus:outline-none focus:border-teal-500 transition-all"
@@ -288,24 +553,91 @@ export default function ProductListPage() {
 
               <Select
                 value={subcategoryFilter}
-                onValueChange={setSubcategoryFilter}
+                onValueChange={(value) => updateQuery({ subcategory_id: value })}
                 options={subcategoryOptions}
                 placeholder="Subcategory"
                 disabled={categoryFilter === 'all'}
                 className="flex-1 sm:flex-none sm:w-44"
               />
+
+              <Select
+                value={statusFilter}
+                onValueChange={(value) => updateQuery({ status: value })}
+                options={statusOptions}
+                placeholder="Status"
+                className="flex-1 sm:flex-none sm:w-40"
+              />
+
+              <Select
+                value={sortField || 'default'}
+                onValueChange={(value) =>
+                  isProductSortField(value)
+                    ? updateQuery({ sort: value, order: DEFAULT_SORT_ORDERS[value] })
+                    : updateQuery({ sort: null, order: null })
+                }
+                options={sortOptions}
+                placeholder="Sort by"
+                className="flex-1 sm:flex-none sm:w-44"
+              />
+
+              <Select
+                value={isScrollView ? 'scroll' : 'pages'}
+                onValueChange={(value) => updateQuery({ view: value === 'scroll' ? 'scroll' : null })}
+                options={viewOptions}
+                placeholder="View"
+                className="flex-1 sm:flex-none sm:w-40"
+              />
             </div>
 
-            <button
-              onClick={() => router.push('/products/new')}
-              className="h-11 px-5 bg-white border-2 border-teal-500 text-teal-600 rounded-xl font-semibold hover:bg-teal-50 hover:border-teal-600 transition-all flex items-center justify-center gap-2"
-            >
-              <Plus className="w-5 h-5" />
-              <span>Add Product</span>
-            </button>
+            <div className="flex gap-3">
+              <Select
+                value={exportFormat}
+                onValueChange={setExportFormat}
+                options={exportFormatOptions}
+                placeholder="Format"
+                className="flex-1 sm:flex-none sm:w-36"
+              />
+              <button
+                onClick={handleExport}
+                disabled={isExporting || pagination.total === 0}
+                className="h-11 px-5 bg-white border-2 border-slate-200 text-slate-600 rounded-xl font-semibold hover:bg-slate-50 hover:border-slate-300 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                {isExporting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Download className="w-5 h-5" />}
+                <span>Export</span>
+              </button>
+            </div>
+
+            {hasPermission('products:write') && (
+              <button
+                onClick={() => router.push('/products/new')}
+                className="h-11 px-5 bg-white border-2 border-teal-500 text-teal-600 rounded-xl font-semibold hover:bg-teal-50 hover:border-teal-600 transition-all flex items-center justify-center gap-2"
+              >
+                <Plus className="w-5 h-5" />
+                <span>Add Product</span>
+              </button>
+            )}
           </div>
         </div>
 
+        {/* Bulk Actions */}
+        {canSelect && (selectedIds.length > 0 || selectAllMatching) && (
+          <BulkActionsBar
+            selection={bulkSelection}
+            selectedCount={selectAllMatching ? pagination.total : selectedIds.length}
+            categories={categories}
+            subcategories={allSubcategories}
+            canDelete={hasPermission('products:delete')}
+            totalMatching={pagination.total}
+            onSelectAllMatching={
+              allOnPageSelected && pagination.total > products.length
+                ? () => setSelectAllMatching(true)
+                : undefined
+            }
+            onComplete={() => fetchProducts(currentPage, false)}
+            onClear={clearSelection}
+          />
+        )}
+
         {/* Loading Overlay */}
         {isPageLoading && (
           <div className="flex items-center justify-center py-8">
@@ -328,6 +660,15 @@ export default function ProductListPage() {
                   className="bg-white rounded-2xl border border-slate-200 p-4 shadow-sm hover:shadow-md transition-shadow"
                 >
                   <div className="flex gap-4">
+                    {canSelect && (
+                      <input
+                        type="checkbox"
+                        checked={selectAllMatching || selectedIds.includes(product._id)}
+                        onChange={() => toggleSelected(product._id)}
+                        aria-label={`Select ${product.product_name}`}
+                        className="mt-1 w-4 h-4 accent-teal-600 flex-shrink-0"
+                      />
+                    )}
                     {/* Product Image */}
                     <div className="w-20 h-20 rounded-xl overflow-hidden bg-slate-100 flex-shrink-0 ring-1 ring-slate-200">
                       {product.image_urls?.[0] ? (
@@ -346,42 +687,50 @@ export default function ProductListPage() {
                     {/* Product Info */}
                     <div className="flex-1 min-w-0">
                       <h3 className="font-semibold text-slate-800 truncate">
-                        {product.product_name}
+                        <Highlight text={product.product_name} search={debouncedSearch} />
                       </h3>
+                      {renderSearchMatch(product)}
                       <p className="text-sm text-teal-600 font-medium mt-1">
                         {getCategoryName(product.category_id)}
                       </p>
                       <p className="text-xs text-slate-500">
                         {getSubcategoryName(product.subcategory_id)}
                       </p>
+                      <div className="mt-2">
+                        <StatusBadge status={product.status} />
+                      </div>
                     </div>
 
                     {/* Actions */}
                     <div className="flex flex-col gap-2">
-                      <button
-                        onClick={() => handleEdit(product._id)}
-                        disabled={editingProductId === product._id || deletingProductId === product._id}
-                        className="p-2.5 bg-white border-2 border-teal-500 text-teal-600 rounded-lg hover:bg-teal-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
-                        title="Edit"
-                      >
-                        {editingProductId === product._id ? (
-                          <Loader2 className="w-4 h-4 animate-spin" />
-                        ) : (
-                          <Edit className="w-4 h-4" />
-                        )}
-                      </button>
-                      <button
-                        onClick={() => handleDelete(product._id, product.product_name)}
-                        disabled={deletingProductId === product._id || editingProductId === product._id}
-                        className="p-2.5 bg-white border-2 border-rose-500 text-rose-600 rounded-lg hover:bg-rose-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
-                        title="Delete"
-                      >
-                        {deletingProductId === product._id ? (
-                          <Loader2 className="w-4 h-4 animate-spin" />
-                        ) : (
-                          <Trash2 className="w-4 h-4" />
-                        )}
-                      </button>
+                      {hasPermission('products:write') && (
+                        <button
+                          onClick={() => handleEdit(product._id)}
+                          disabled={editingProductId === product._id || deletingProductId === product._id}
+                          className="p-2.5 bg-white border-2 border-teal-500 text-teal-600 rounded-lg hover:bg-teal-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+                          title="Edit"
+                        >
+                          {editingProductId === product._id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <Edit className="w-4 h-4" />
+                          )}
+                        </button>
+                      )}
+                      {hasPermission('products:delete') && (
+                        <button
+                          onClick={() => handleDelete(product._id, product.product_name)}
+                          disabled={deletingProductId === product._id || editingProductId === product._id}
+                          className="p-2.5 bg-white border-2 border-rose-500 text-rose-600 rounded-lg hover:bg-rose-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+                          title="Delete"
+                        >
+                          {deletingProductId === product._id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <Trash2 className="w-4 h-4" />
+                          )}
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -397,12 +746,25 @@ export default function ProductListPage() {
               <table className="w-full">
                 <thead className="bg-slate-50 border-b border-slate-200">
                   <tr>
+                    {canSelect && (
+                      <th className="w-12 pl-6 py-4">
+                        <input
+                          type="checkbox"
+                          checked={selectAllMatching || allOnPageSelected}
+                          onChange={toggleSelectPage}
+                          disabled={products.length === 0}
+                          aria-label="Select all products on this page"
+                          className="w-4 h-4 accent-teal-600"
+                        />
+                      </th>
+                    )}
+                    {renderSortableHeader('name', 'Product')}
+                    {renderSortableHeader('category', 'Category')}
                     <th className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4">
-                      Product
-                    </th>
-                    <th className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4">
-                      Category
+                      Status
                     </th>
+                    {renderSortableHeader('image_count', 'Images')}
+                    {renderSortableHeader('updated_at', 'Updated')}
                     <th className="text-right text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4">
                       Actions
                     </th>
@@ -411,6 +773,17 @@ export default function ProductListPage() {
                 <tbody className="divide-y divide-slate-100">
                   {products.map((product) => (
                     <tr key={product._id} className="hover:bg-slate-50 transition-colors">
+                      {canSelect && (
+                        <td className="w-12 pl-6 py-4">
+                          <input
+                            type="checkbox"
+                            checked={selectAllMatching || selectedIds.includes(product._id)}
+                            onChange={() => toggleSelected(product._id)}
+                            aria-label={`Select ${product.product_name}`}
+                            className="w-4 h-4 accent-teal-600"
+                          />
+                        </td>
+                      )}
                       <td className="px-6 py-4">
                         <div className="flex items-center gap-4">
                           <div className="w-14 h-14 rounded-xl overflow-hidden bg-slate-100 flex-shrink-0 ring-1 ring-slate-200">
@@ -426,7 +799,14 @@ export default function ProductListPage() {
                               </div>
                             )}
                           </div>
-                          <span className="font-semibold text-slate-800">{product.product_name}</span>
+                          <div className="min-w-0">
+                            <Highlight
+                              text={product.product_name}
+                              search={debouncedSearch}
+                              className="font-semibold text-slate-800"
+                            />
+                            {renderSearchMatch(product)}
+                          </div>
                         </div>
                       </td>
                       <td className="px-6 py-4">
@@ -435,32 +815,45 @@ export default function ProductListPage() {
                           <p className="text-slate-500 text-sm">{getSubcategoryName(product.subcategory_id)}</p>
                         </div>
                       </td>
+                      <td className="px-6 py-4">
+                        <StatusBadge status={product.status} />
+                      </td>
+                      <td className="px-6 py-4 text-sm text-slate-700">
+                        {product.image_count ?? product.image_urls?.length ?? 0}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-slate-500 whitespace-nowrap">
+                        {product.updated_at ? new Date(product.updated_at).toLocaleDateString() : '—'}
+                      </td>
                       <td className="px-6 py-4">
                         <div className="flex items-center justify-end gap-2">
-                          <button
-                            onClick={() => handleEdit(product._id)}
-                            disabled={editingProductId === product._id || deletingProductId === product._id}
-                            className="p-2.5 bg-white border-2 border-teal-500 text-teal-600 rounded-lg hover:bg-teal-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
-                            title="Edit"
-                          >
-                            {editingProductId === product._id ? (
-                              <Loader2 className="w-4 h-4 animate-spin" />
-                            ) : (
-                              <Edit className="w-4 h-4" />
-                            )}
-                          </button>
-                          <button
-                            onClick={() => handleDelete(product._id, product.product_name)}
-                            disabled={deletingProductId === product._id || editingProductId === product._id}
-                            className="p-2.5 bg-white border-2 border-rose-500 text-rose-600 rounded-lg hover:bg-rose-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
-                            title="Delete"
-                          >
-                            {deletingProductId === product._id ? (
-                              <Loader2 className="w-4 h-4 animate-spin" />
-                            ) : (
-                              <Trash2 className="w-4 h-4" />
-                            )}
-                          </button>
+                          {hasPermission('products:write') && (
+                            <button
+                              onClick={() => handleEdit(product._id)}
+                              disabled={editingProductId === product._id || deletingProductId === product._id}
+                              className="p-2.5 bg-white border-2 border-teal-500 text-teal-600 rounded-lg hover:bg-teal-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+                              title="Edit"
+                            >
+                              {editingProductId === product._id ? (
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                              ) : (
+                                <Edit className="w-4 h-4" />
+                              )}
+                            </button>
+                          )}
+                          {hasPermission('products:delete') && (
+                            <button
+                              onClick={() => handleDelete(product._id, product.product_name)}
+                              disabled={deletingProductId === product._id || editingProductId === product._id}
+                              className="p-2.5 bg-white border-2 border-rose-500 text-rose-600 rounded-lg hover:bg-rose-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+                              title="Delete"
+                            >
+                              {deletingProductId === product._id ? (
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                              ) : (
+                                <Trash2 className="w-4 h-4" />
+                              )}
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -478,16 +871,40 @@ export default function ProductListPage() {
           </div>
         )}
 
+        {/* Infinite Scroll */}
+        {isScrollView && !isPageLoading && products.length > 0 && (
+          <div ref={loadMoreRef} className="flex items-center justify-center py-6">
+            {nextCursor ? (
+              <Loader2 className="w-6 h-6 text-teal-500 animate-spin" />
+            ) : (
+              <p className="text-sm text-slate-500">
+                All <span className="font-semibold text-slate-800">{products.length}</span> products loaded
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Pagination */}
-        {pagination.totalPages > 1 && !isPageLoading && (
+        {!isScrollView && pagination.total > PAGE_SIZES[0] && !isPageLoading && (
           <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-sm">
             <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
-              <p className="text-sm text-slate-600">
-                Page <span className="font-semibold text-slate-800">{pagination.page}</span> of{' '}
-                <span className="font-semibold text-slate-800">{pagination.totalPages}</span>
-                {' · '}
-                <span className="font-semibold text-slate-800">{pagination.total}</span> products
-              </p>
+              <div className="flex items-center gap-3">
+                <p className="text-sm text-slate-600">
+                  Page <span className="font-semibold text-slate-800">{pagination.page}</span> of{' '}
+                  <span className="font-semibold text-slate-800">{pagination.totalPages}</span>
+                  {' · '}
+                  <span className="font-semibold text-slate-800">{pagination.total}</span> products
+                </p>
+                <Select
+                  value={pageSize.toString()}
+                  onValueChange={(value) =>
+                    updateQuery({ limit: value === DEFAULT_PAGE_SIZE.toString() ? null : value })
+                  }
+                  options={pageSizeOptions}
+                  placeholder="Page size"
+                  className="w-36"
+                />
+              </div>
               
               <div className="flex items-center gap-2">
                 <button
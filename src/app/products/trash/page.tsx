@@ -0,0 +1,195 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { RotateCcw, Trash2, Package, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface TrashedProduct {
+  _id: string;
+  product_name: string;
+  image_urls: string[];
+  deleted_at: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default function ProductTrashPage() {
+  const [products, setProducts] = useState<TrashedProduct[]>([]);
+  const [retentionDays, setRetentionDays] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyProductId, setBusyProductId] = useState<string | null>(null);
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      const res = await fetch('/api/products/trash');
+      const data = await res.json();
+      if (data.success) {
+        setProducts(data.data);
+        setRetentionDays(data.retention_days);
+      }
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+      toast.error('Failed to load trash');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  const getPurgeLabel = (deletedAt: string) => {
+    const daysLeft = Math.ceil((new Date(deletedAt).getTime() + retentionDays * DAY_MS - Date.now()) / DAY_MS);
+    return daysLeft > 0 ? `Purged in ${daysLeft} day(s)` : 'Purged at next cleanup';
+  };
+
+  const handleRestore = async (product: TrashedProduct) => {
+    setBusyProductId(product._id);
+    try {
+      const res = await fetch(`/api/products/trash/${product._id}`, { method: 'POST' });
+      const result = await res.json();
+
+      if (result.success) {
+        toast.success(`${product.product_name} has been restored`);
+        fetchTrash();
+      } else {
+        toast.error(result.error || 'Failed to restore product');
+      }
+    } catch (error) {
+      console.error('Error restoring product:', error);
+      toast.error('Failed to restore product');
+    } finally {
+      setBusyProductId(null);
+    }
+  };
+
+  const handlePurge = async (product: TrashedProduct) => {
+    if (!confirm(`Permanently delete "${product.product_name}" and its images? This cannot be undone.`)) {
+      return;
+    }
+
+    setBusyProductId(product._id);
+    try {
+      const res = await fetch(`/api/products/trash/${product._id}`, { method: 'DELETE' });
+      const result = await res.json();
+
+      if (result.success) {
+        toast.success('Product permanently deleted');
+        if (result.cleanup_failures?.length > 0) {
+          toast(`${result.cleanup_failures.length} image(s) could not be deleted from Cloudinary`, { icon: '⚠️' });
+        }
+        fetchTrash();
+      } else {
+        toast.error(result.error || 'Failed to delete product');
+      }
+    } catch (error) {
+      console.error('Error purging product:', error);
+      toast.error('Failed to delete product');
+    } finally {
+      setBusyProductId(null);
+    }
+  };
+
+  return (
+    <AdminLayout title="Trash" requiredPermission="products:delete">
+      <div className="space-y-4 md:space-y-5">
+        <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-sm">
+          <p className="text-sm text-slate-600">
+            Deleted products stay here until they are restored or permanently deleted.
+            {retentionDays > 0 && ` Products older than ${retentionDays} days are purged automatically.`}
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="w-8 h-8 text-teal-500 animate-spin" />
+          </div>
+        ) : products.length === 0 ? (
+          <div className="bg-white rounded-2xl border border-slate-200 p-8 text-center">
+            <Trash2 className="w-12 h-12 text-slate-300 mx-auto mb-3" />
+            <p className="text-slate-500">Trash is empty</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-2xl border border-slate-200 overflow-hidden shadow-sm">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-slate-50 border-b border-slate-200">
+                  <tr>
+                    <th className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4">
+                      Product
+                    </th>
+                    <th className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4">
+                      Deleted
+                    </th>
+                    <th className="text-right text-xs font-semibold text-slate-500 uppercase tracking-wider px-6 py-4">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {products.map((product) => (
+                    <tr key={product._id} className="hover:bg-slate-50 transition-colors">
+                      <td className="px-6 py-4">
+                        <div className="flex items-center gap-4">
+                          <div className="w-12 h-12 rounded-xl overflow-hidden bg-slate-100 flex-shrink-0 ring-1 ring-slate-200">
+                            {product.image_urls?.[0] ? (
+                              <img
+                                src={product.image_urls[0]}
+                                alt={product.product_name}
+                                className="w-full h-full object-cover"
+                              />
+                            ) : (
+                              <div className="w-full h-full flex items-center justify-center text-slate-400">
+                                <Package className="w-6 h-6" />
+                              </div>
+                            )}
+                          </div>
+                          <div>
+                            <p className="font-semibold text-slate-800">{product.product_name}</p>
+                            <p className="text-slate-400 text-xs">{product._id}</p>
+                          </div>
+                        </div>
+                      </td>
+                      <td className="px-6 py-4">
+                        <p className="text-slate-700">{new Date(product.deleted_at).toLocaleDateString()}</p>
+                        {retentionDays > 0 && (
+                          <p className="text-slate-400 text-xs">{getPurgeLabel(product.deleted_at)}</p>
+                        )}
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="flex items-center justify-end gap-2">
+                          <button
+                            onClick={() => handleRestore(product)}
+                            disabled={busyProductId === product._id}
+                            className="p-2.5 bg-white border-2 border-teal-500 text-teal-600 rounded-lg hover:bg-teal-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+                            title="Restore"
+                          >
+                            {busyProductId === product._id ? (
+                              <Loader2 className="w-4 h-4 animate-spin" />
+                            ) : (
+                              <RotateCcw className="w-4 h-4" />
+                            )}
+                          </button>
+                          <button
+                            onClick={() => handlePurge(product)}
+                            disabled={busyProductId === product._id}
+                            className="p-2.5 bg-white border-2 border-rose-500 text-rose-600 rounded-lg hover:bg-rose-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+                            title="Delete permanently"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
@@ -3,6 +3,7 @@
 import Image from 'next/image';
 import { Menu, Plus } from 'lucide-react';
 import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
 
 interface AdminHeaderProps {
   title: string;
@@ -11,6 +12,7 @@ interface AdminHeaderProps {
 
 export const AdminHeader = ({ title, onMenuClick }: AdminHeaderProps) => {
   const router = useRouter();
+  const { hasPermission } = useAuth();
 
   return (
     <header className="h-14 md:h-16 bg-white border-b border-slate-200 flex items-center justify-between px-4 md:px-6 sticky top-0 z-30">
@@ -43,12 +45,14 @@ export const AdminHeader = ({ title, onMenuClick }: AdminHeaderProps) => {
 
       <div className="flex items-center gap-2">
         {/* Mobile Add Product Button */}
-        <button
-          className="md:hidden p-2 bg-white border-2 border-teal-500 text-teal-600 rounded-xl hover:bg-teal-50 hover:border-teal-600 transition-all"
-          onClick={() => router.push('/products/new')}
-        >
-          <Plus className="w-5 h-5" />
-        </button>
+        {hasPermission('products:write') && (
+          <button
+            className="md:hidden p-2 bg-white border-2 border-teal-500 text-teal-600 rounded-xl hover:bg-teal-50 hover:border-teal-600 transition-all"
+            onClick={() => router.push('/products/new')}
+          >
+            <Plus className="w-5 h-5" />
+          </button>
+        )}
       </div>
     </header>
   );
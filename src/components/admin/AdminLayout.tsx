@@ -3,16 +3,19 @@
 import { ReactNode, useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
+import { Permission } from '@/lib/permissions';
+import { ShieldAlert } from 'lucide-react';
 import { AdminSidebar } from './AdminSidebar';
 import { AdminHeader } from './AdminHeader';
 
 interface AdminLayoutProps {
   children: ReactNode;
   title: string;
+  requiredPermission?: Permission;
 }
 
-export const AdminLayout = ({ children, title }: AdminLayoutProps) => {
-  const { isAuthenticated, isLoading } = useAuth();
+export const AdminLayout = ({ children, title, requiredPermission }: AdminLayoutProps) => {
+  const { isAuthenticated, isLoading, hasPermission } = useAuth();
   const router = useRouter();
   const [sidebarOpen, setSidebarOpen] = useState(false);
 
@@ -54,7 +57,14 @@ export const AdminLayout = ({ children, title }: AdminLayoutProps) => {
       <div className="flex-1 flex flex-col min-w-0 overflow-hidden">
         <AdminHeader title={title} onMenuClick={() => setSidebarOpen(true)} />
         <main className="flex-1 p-4 md:p-6 overflow-y-auto">
-          {children}
+          {requiredPermission && !hasPermission(requiredPermission) ? (
+            <div className="text-center py-16">
+              <ShieldAlert className="w-16 h-16 text-slate-300 mx-auto mb-4" />
+              <p className="text-slate-500">You do not have permission to view this page.</p>
+            </div>
+          ) : (
+            children
+          )}
         </main>
       </div>
     </div>
@@ -4,14 +4,47 @@ import Link from 'next/link';
 import Image from 'next/image';
 import { usePathname } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
-import { Plus, Package, LogOut, X } from 'lucide-react';
+import { LayoutDashboard, Plus, Package, Upload, Trash2, FolderTree, Users, ClipboardList, Wrench, LogOut, X, type LucideIcon } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { Permission } from '@/lib/permissions';
 
-const productItems = [
-  { title: 'Add Product', icon: Plus, path: '/products/new' },
-  { title: 'Product List', icon: Package, path: '/products' },
+interface NavItem {
+  title: string;
+  icon: LucideIcon;
+  path: string;
+  permission: Permission;
+}
+
+const overviewItems: NavItem[] = [
+  { title: 'Dashboard', icon: LayoutDashboard, path: '/', permission: 'products:read' },
+];
+
+const productItems: NavItem[] = [
+  { title: 'Add Product', icon: Plus, path: '/products/new', permission: 'products:write' },
+  { title: 'Product List', icon: Package, path: '/products', permission: 'products:read' },
+  { title: 'Import Products', icon: Upload, path: '/products/import', permission: 'products:write' },
+  { title: 'Trash', icon: Trash2, path: '/products/trash', permission: 'products:delete' },
+];
+
+const catalogueItems: NavItem[] = [
+  { title: 'Categories', icon: FolderTree, path: '/categories', permission: 'products:read' },
+  { title: 'Reconcile Counters', icon: Wrench, path: '/maintenance', permission: 'taxonomy:write' },
+];
+
+const adminItems: NavItem[] = [
+  { title: 'Admin Users', icon: Users, path: '/admins', permission: 'admins:manage' },
+  { title: 'Audit Log', icon: ClipboardList, path: '/audit', permission: 'audit:read' },
 ];
 
+const navSections = [
+  { title: 'Overview', items: overviewItems },
+  { title: 'Products', items: productItems },
+  { title: 'Catalogue', items: catalogueItems },
+  { title: 'Admins', items: adminItems },
+];
+
+const allItems = navSections.flatMap((section) => section.items);
+
 interface AdminSidebarProps {
   isOpen: boolean;
   onClose: () => void;
@@ -19,10 +52,15 @@ interface AdminSidebarProps {
 
 export const AdminSidebar = ({ isOpen, onClose }: AdminSidebarProps) => {
   const pathname = usePathname();
-  const { logout } = useAuth();
+  const { logout, hasPermission } = useAuth();
+
+  // Nested routes highlight their parent item unless they have an item of their own
+  const isItemActive = (path: string) =>
+    pathname === path ||
+    (!!pathname?.startsWith(`${path}/`) && !allItems.some((item) => item.path === pathname));
 
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await logout();
     onClose();
     window.location.href = '/login';
   };
@@ -75,38 +113,43 @@ export const AdminSidebar = ({ isOpen, onClose }: AdminSidebarProps) => {
 
         {/* Navigation */}
         <nav className="flex-1 p-4 overflow-y-auto bg-white">
-          {/* Products Section */}
-          <div className="mb-6">
-            <p className="text-xs font-semibold text-slate-400 uppercase tracking-wider px-3 mb-3">
-              Products
-            </p>
-            <ul className="space-y-1">
-              {productItems.map((item) => {
-                const isActive = pathname === item.path || 
-                  (item.path === '/products' && pathname?.startsWith('/products') && pathname !== '/products/new');
-                
-                return (
-                  <li key={item.path}>
-                    <Link
-                      href={item.path}
-                      onClick={onClose}
-                      className={cn(
-                        'flex items-center gap-3 px-4 py-3 rounded-xl transition-all duration-200',
-                        isActive
-                          ? 'bg-white border-2 border-teal-500 text-teal-600 font-semibold'
-                          : 'text-slate-600 hover:bg-slate-50 border-2 border-transparent hover:border-slate-200'
-                      )}
-                    >
-                      <item.icon className="w-5 h-5" />
-                      <span className="font-medium">{item.title}</span>
-                    </Link>
-                  </li>
-                );
-              })}
-            </ul>
-          </div>
+          {navSections.map((section) => {
+            const visibleItems = section.items.filter((item) => hasPermission(item.permission));
+            if (visibleItems.length === 0) return null;
+
+            return (
+              <div key={section.title} className="mb-6">
+                <p className="text-xs font-semibold text-slate-400 uppercase tracking-wider px-3 mb-3">
+                  {section.title}
+                </p>
+                <ul className="space-y-1">
+                  {visibleItems.map((item) => {
+                    const isActive = isItemActive(item.path);
+
+                    return (
+                      <li key={item.path}>
+                        <Link
+                          href={item.path}
+                          onClick={onClose}
+                          className={cn(
+                            'flex items-center gap-3 px-4 py-3 rounded-xl transition-all duration-200',
+                            isActive
+                              ? 'bg-white border-2 border-teal-500 text-teal-600 font-semibold'
+                              : 'text-slate-600 hover:bg-slate-50 border-2 border-transparent hover:border-slate-200'
+                          )}
+                        >
+                          <item.icon className="w-5 h-5" />
+                          <span className="font-medium">{item.title}</span>
+                        </Link>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            );
+          })}
 
-          {/* Logout placed below product list */}
+          {/* Logout placed below navigation sections */}
           <div className="mt-4">
             <button
               onClick={handleLogout}
@@ -0,0 +1,214 @@
+'use client';
+
+import { useState } from 'react';
+import { Select } from '@/components/ui/Select';
+import { CheckCircle2, XCircle, Archive, FolderInput, Trash2, X, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface Category {
+  _id: string;
+  category_name: string;
+}
+
+interface Subcategory {
+  _id: string;
+  subcategory_name: string;
+  category_id: string;
+}
+
+export type BulkSelection =
+  | { product_ids: string[] }
+  | { filters: { search?: string; category_id?: string; subcategory_id?: string; status?: string } };
+
+interface BulkActionsBarProps {
+  selection: BulkSelection;
+  selectedCount: number;
+  categories: Category[];
+  subcategories: Subcategory[];
+  canDelete: boolean;
+  // Offered when every row on the page is ticked but more products match the filters
+  onSelectAllMatching?: () => void;
+  totalMatching: number;
+  onComplete: () => void;
+  onClear: () => void;
+}
+
+type BulkAction = 'delete' | 'set_status' | 'move';
+
+export const BulkActionsBar = ({
+  selection,
+  selectedCount,
+  categories,
+  subcategories,
+  canDelete,
+  onSelectAllMatching,
+  totalMatching,
+  onComplete,
+  onClear,
+}: BulkActionsBarProps) => {
+  const [runningAction, setRunningAction] = useState<string | null>(null);
+  const [isMoving, setIsMoving] = useState(false);
+  const [moveCategoryId, setMoveCategoryId] = useState('');
+  const [moveSubcategoryId, setMoveSubcategoryId] = useState('');
+
+  const label = `${selectedCount} product${selectedCount === 1 ? '' : 's'}`;
+
+  const runAction = async (action: BulkAction, key: string, payload: Record<string, string> = {}) => {
+    setRunningAction(key);
+    try {
+      const res = await fetch('/api/products/bulk', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action, ...selection, ...payload }),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        toast.success(data.message);
+        setIsMoving(false);
+        onComplete();
+      } else {
+        toast.error(data.error || 'Bulk action failed');
+      }
+    } catch (error) {
+      console.error('Error running bulk action:', error);
+      toast.error('Bulk action failed');
+    } finally {
+      setRunningAction(null);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Move ${label} to the trash? They can be restored from the Trash page.`)) {
+      return;
+    }
+    runAction('delete', 'delete');
+  };
+
+  const handleMove = () => {
+    if (!moveCategoryId || !moveSubcategoryId) {
+      toast.error('Choose a category and subcategory');
+      return;
+    }
+    runAction('move', 'move', { category_id: moveCategoryId, subcategory_id: moveSubcategoryId });
+  };
+
+  const categoryOptions = categories.map((cat) => ({ value: cat._id, label: cat.category_name }));
+  const subcategoryOptions = subcategories
+    .filter((sub) => sub.category_id === moveCategoryId)
+    .map((sub) => ({ value: sub._id, label: sub.subcategory_name }));
+
+  const isBusy = runningAction !== null;
+  const buttonClass = 'h-10 px-4 bg-white border-2 rounded-xl text-sm font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2';
+
+  const renderIcon = (key: string, Icon: typeof CheckCircle2) =>
+    runningAction === key ? <Loader2 className="w-4 h-4 animate-spin" /> : <Icon className="w-4 h-4" />;
+
+  return (
+    <div className="bg-white rounded-2xl border-2 border-teal-500 p-4 shadow-sm space-y-3">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+        <p className="text-sm text-slate-600">
+          <span className="font-semibold text-slate-800">{label}</span> selected
+          {'product_ids' in selection ? (
+            onSelectAllMatching && (
+              <>
+                {' · '}
+                <button onClick={onSelectAllMatching} className="font-semibold text-teal-600 hover:underline">
+                  Select all {totalMatching} matching products
+                </button>
+              </>
+            )
+          ) : (
+            <> (every product matching the current filters)</>
+          )}
+        </p>
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => runAction('set_status', 'active', { status: 'active' })}
+            disabled={isBusy}
+            className={`${buttonClass} border-teal-500 text-teal-600 hover:bg-teal-50`}
+          >
+            {renderIcon('active', CheckCircle2)}
+            <span>Set Active</span>
+          </button>
+          <button
+            onClick={() => runAction('set_status', 'inactive', { status: 'inactive' })}
+            disabled={isBusy}
+            className={`${buttonClass} border-slate-300 text-slate-600 hover:bg-slate-50`}
+          >
+            {renderIcon('inactive', XCircle)}
+            <span>Set Inactive</span>
+          </button>
+          <button
+            onClick={() => runAction('set_status', 'archived', { status: 'archived' })}
+            disabled={isBusy}
+            className={`${buttonClass} border-slate-300 text-slate-600 hover:bg-slate-50`}
+          >
+            {renderIcon('archived', Archive)}
+            <span>Archive</span>
+          </button>
+          <button
+            onClick={() => setIsMoving(!isMoving)}
+            disabled={isBusy}
+            className={`${buttonClass} border-slate-300 text-slate-600 hover:bg-slate-50`}
+          >
+            <FolderInput className="w-4 h-4" />
+            <span>Move</span>
+          </button>
+          {canDelete && (
+            <button
+              onClick={handleDelete}
+              disabled={isBusy}
+              className={`${buttonClass} border-rose-500 text-rose-600 hover:bg-rose-50`}
+            >
+              {renderIcon('delete', Trash2)}
+              <span>Delete</span>
+            </button>
+          )}
+          <button
+            onClick={onClear}
+            disabled={isBusy}
+            className="h-10 px-3 rounded-xl text-slate-500 hover:bg-slate-100 transition-colors disabled:opacity-50 flex items-center justify-center"
+            title="Clear selection"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {isMoving && (
+        <div className="flex flex-col sm:flex-row gap-3 pt-3 border-t border-slate-100">
+          <Select
+            value={moveCategoryId}
+            onValueChange={(value) => {
+              setMoveCategoryId(value);
+              setMoveSubcategoryId('');
+            }}
+            options={categoryOptions}
+            placeholder="Move to category"
+            className="flex-1 sm:flex-none sm:w-52"
+          />
+          <Select
+            value={moveSubcategoryId}
+            onValueChange={setMoveSubcategoryId}
+            options={subcategoryOptions}
+            placeholder="Subcategory"
+            disabled={!moveCategoryId}
+            className="flex-1 sm:flex-none sm:w-52"
+          />
+          <button
+            onClick={handleMove}
+            disabled={isBusy || !moveCategoryId || !moveSubcategoryId}
+            className={`${buttonClass} border-teal-500 text-teal-600 hover:bg-teal-50`}
+          >
+            {renderIcon('move', FolderInput)}
+            <span>Move {label}</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
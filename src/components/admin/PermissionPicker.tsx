@@ -0,0 +1,52 @@
+'use client';
+
+import { PERMISSIONS, ROLE_PERMISSIONS, isRole, Permission } from '@/lib/permissions';
+import { cn } from '@/lib/utils';
+
+interface PermissionPickerProps {
+  role: string;
+  permissions: string[];
+  onChange: (permissions: string[]) => void;
+}
+
+export const PermissionPicker = ({ role, permissions, onChange }: PermissionPickerProps) => {
+  const rolePermissions: Permission[] = isRole(role) ? ROLE_PERMISSIONS[role] : [];
+
+  const togglePermission = (permission: Permission) => {
+    if (permissions.includes(permission)) {
+      onChange(permissions.filter((p) => p !== permission));
+    } else {
+      onChange([...permissions, permission]);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+      {PERMISSIONS.map((permission) => {
+        const grantedByRole = rolePermissions.includes(permission);
+        const checked = grantedByRole || permissions.includes(permission);
+
+        return (
+          <label
+            key={permission}
+            className={cn(
+              'flex items-center gap-3 px-4 py-3 rounded-xl border-2 text-sm transition-all',
+              checked ? 'border-teal-500 text-teal-700' : 'border-slate-200 text-slate-600',
+              grantedByRole ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer hover:bg-slate-50'
+            )}
+          >
+            <input
+              type="checkbox"
+              checked={checked}
+              disabled={grantedByRole}
+              onChange={() => togglePermission(permission)}
+              className="w-4 h-4 accent-teal-600"
+            />
+            <span className="font-medium">{permission}</span>
+            {grantedByRole && <span className="ml-auto text-xs text-slate-400">via role</span>}
+          </label>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { PRODUCT_STATUSES, PRODUCT_STATUS_LABELS } from '@/lib/product-status';
+import { ProductStatus } from '@/types/product';
+
+const BADGE_STYLES: Record<ProductStatus, string> = {
+  draft: 'bg-amber-50 text-amber-700 border-amber-200',
+  active: 'bg-teal-50 text-teal-700 border-teal-200',
+  inactive: 'bg-slate-100 text-slate-600 border-slate-200',
+  archived: 'bg-rose-50 text-rose-700 border-rose-200',
+};
+
+export const StatusBadge = ({ status }: { status: ProductStatus }) => (
+  <span
+    className={cn(
+      'inline-flex items-center px-2.5 py-0.5 rounded-full border text-xs font-semibold',
+      BADGE_STYLES[status] || BADGE_STYLES.inactive
+    )}
+  >
+    {PRODUCT_STATUS_LABELS[status] || status}
+  </span>
+);
+
+interface StatusPickerProps {
+  value: ProductStatus;
+  onChange: (status: ProductStatus) => void;
+  // Statuses that can be picked; the others are shown disabled
+  allowed: readonly ProductStatus[];
+}
+
+export const StatusPicker = ({ value, onChange, allowed }: StatusPickerProps) => (
+  <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Status">
+    {PRODUCT_STATUSES.map((status) => {
+      const isAllowed = status === value || allowed.includes(status);
+      return (
+        <button
+          key={status}
+          type="button"
+          role="radio"
+          aria-checked={status === value}
+          onClick={() => onChange(status)}
+          disabled={!isAllowed}
+          className={cn(
+            'h-10 px-4 rounded-xl border-2 text-sm font-semibold transition-all disabled:opacity-40 disabled:cursor-not-allowed',
+            status === value
+              ? 'border-teal-500 bg-teal-50 text-teal-700'
+              : 'border-slate-200 bg-white text-slate-600 hover:border-slate-300'
+          )}
+        >
+          {PRODUCT_STATUS_LABELS[status]}
+        </button>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,184 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { History, RotateCcw, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+interface Revision {
+  _id: string;
+  revision: number;
+  changed_by: { admin_id: string; username: string };
+  changed_at: string;
+  changes: Record<string, FieldChange>;
+}
+
+interface RevisionHistoryProps {
+  productId: string;
+  categoryNames: Record<string, string>;
+  onRestored: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  product_name: 'Name',
+  product_title: 'Title',
+  product_description: 'Description',
+  category_id: 'Category',
+  subcategory_id: 'Subcategory',
+  status: 'Status',
+  image_urls: 'Images',
+};
+
+const MAX_TEXT_LENGTH = 160;
+
+export const RevisionHistory = ({ productId, categoryNames, onRestored }: RevisionHistoryProps) => {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [subcategoryNames, setSubcategoryNames] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [restoringRevision, setRestoringRevision] = useState<number | null>(null);
+
+  const fetchRevisions = useCallback(async () => {
+    try {
+      const [revisionsRes, subcategoriesRes] = await Promise.all([
+        fetch(`/api/products/${productId}/revisions`),
+        fetch('/api/subcategories'),
+      ]);
+      const revisionsData = await revisionsRes.json();
+      const subcategoriesData = await subcategoriesRes.json();
+
+      if (revisionsData.success) {
+        setRevisions(revisionsData.data);
+      }
+      if (subcategoriesData.success) {
+        const names: Record<string, string> = {};
+        for (const sub of subcategoriesData.data) {
+          names[sub._id] = sub.subcategory_name;
+        }
+        setSubcategoryNames(names);
+      }
+    } catch (error) {
+      console.error('Error fetching product history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [productId]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (field === 'category_id') return categoryNames[value as string] || (value as string);
+    if (field === 'subcategory_id') return subcategoryNames[value as string] || (value as string);
+    if (field === 'image_urls') return `${(value as string[]).length} image(s)`;
+
+    const text = String(value);
+    return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}…` : text;
+  };
+
+  const describeImageChange = (change: FieldChange) => {
+    const from = (change.from as string[]) || [];
+    const to = (change.to as string[]) || [];
+    const added = to.filter((url) => !from.includes(url)).length;
+    const removed = from.filter((url) => !to.includes(url)).length;
+    return added === 0 && removed === 0 ? 'Reordered' : `${added} added, ${removed} removed`;
+  };
+
+  const handleRestore = async (revision: Revision) => {
+    const label = revision.revision === 0 ? 'its original state' : `revision ${revision.revision}`;
+    if (!confirm(`Restore this product to ${label}? Images are not restored.`)) {
+      return;
+    }
+
+    setRestoringRevision(revision.revision);
+    try {
+      const res = await fetch(`/api/products/${productId}/revisions/${revision.revision}`, { method: 'POST' });
+      const result = await res.json();
+
+      if (result.success) {
+        toast.success(result.message);
+        await fetchRevisions();
+        onRestored();
+      } else {
+        toast.error(result.error || 'Failed to restore revision');
+      }
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      toast.error('Failed to restore revision');
+    } finally {
+      setRestoringRevision(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 p-4 md:p-6 shadow-sm">
+      <h3 className="text-base font-bold text-slate-800 mb-5 flex items-center gap-2">
+        <History className="w-5 h-5 text-slate-500" />
+        History
+      </h3>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="w-6 h-6 text-teal-500 animate-spin" />
+        </div>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-slate-500">No changes have been recorded for this product yet.</p>
+      ) : (
+        <ol className="space-y-4">
+          {revisions.map((revision, index) => (
+            <li key={revision._id} className="border border-slate-200 rounded-xl p-4">
+              <div className="flex items-start justify-between gap-3 mb-3">
+                <div>
+                  <p className="text-sm font-semibold text-slate-800">
+                    {revision.revision === 0 ? 'Original' : `Revision ${revision.revision}`}
+                    {index === 0 && <span className="ml-2 text-xs font-medium text-teal-600">Current</span>}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {/* Revision 0 is the product as created, recorded on its first edit */}
+                    {revision.revision === 0 ? 'Created' : revision.changed_by.username} · {new Date(revision.changed_at).toLocaleString()}
+                  </p>
+                </div>
+                {index > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => handleRestore(revision)}
+                    disabled={restoringRevision !== null}
+                    className="h-9 px-3 bg-white border-2 border-teal-500 text-teal-600 rounded-lg text-sm font-semibold hover:bg-teal-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 flex-shrink-0"
+                  >
+                    {restoringRevision === revision.revision ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="w-4 h-4" />
+                    )}
+                    Restore
+                  </button>
+                )}
+              </div>
+
+              <dl className="space-y-2">
+                {Object.entries(revision.changes).map(([field, change]) => (
+                  <div key={field} className="text-sm">
+                    <dt className="font-medium text-slate-600">{FIELD_LABELS[field] || field}</dt>
+                    <dd className="break-words">
+                      <span className="text-rose-600 line-through">{formatValue(field, change.from)}</span>
+                      <span className="text-slate-400 mx-2">→</span>
+                      <span className="text-teal-700">{formatValue(field, change.to)}</span>
+                      {field === 'image_urls' && (
+                        <span className="text-slate-500 ml-2">({describeImageChange(change)})</span>
+                      )}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import React from 'react';
+
+interface FieldErrorProps {
+  message?: string;
+}
+
+export const FieldError: React.FC<FieldErrorProps> = ({ message }) => {
+  if (!message) {
+    return null;
+  }
+
+  return <p className="text-sm text-rose-600">{message}</p>;
+};
+
+/** Turns an API `errors` array into a field -> message map, keeping the first message per field */
+export function toFieldErrors(errors?: { field: string; message: string }[]): Record<string, string> {
+  const fieldErrors: Record<string, string> = {};
+  for (const error of errors || []) {
+    if (!fieldErrors[error.field]) {
+      fieldErrors[error.field] = error.message;
+    }
+  }
+  return fieldErrors;
+}
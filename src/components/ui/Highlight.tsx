@@ -0,0 +1,52 @@
+import React from 'react';
+import { escapeRegExp, getSearchTerms } from '@/lib/utils';
+
+interface HighlightProps {
+  text: string;
+  search: string;
+  className?: string;
+}
+
+// Marks every occurrence of the search words in `text`, ignoring case
+export const Highlight: React.FC<HighlightProps> = ({ text, search, className }) => {
+  const terms = getSearchTerms(search);
+  if (!text || terms.length === 0) {
+    return <span className={className}>{text}</span>;
+  }
+
+  // Longer words first so "shirts" wins over "shirt" where both would match
+  const pattern = new RegExp(
+    `(${terms.sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})`,
+    'gi'
+  );
+
+  return (
+    <span className={className}>
+      {text.split(pattern).map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-amber-100 text-inherit rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </span>
+  );
+};
+
+/**
+ * Cuts `text` down to roughly `length` characters around the first search word it contains,
+ * or returns null when none of the words appear.
+ */
+export function searchExcerpt(text: string, search: string, length = 120): string | null {
+  const lower = text.toLowerCase();
+  const positions = getSearchTerms(search)
+    .map((term) => lower.indexOf(term))
+    .filter((position) => position >= 0);
+  if (positions.length === 0) return null;
+
+  const start = Math.max(Math.min(...positions) - Math.floor(length / 3), 0);
+  const excerpt = text.slice(start, start + length).trim();
+  return `${start > 0 ? '…' : ''}${excerpt}${start + length < text.length ? '…' : ''}`;
+}
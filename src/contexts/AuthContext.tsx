@@ -1,45 +1,88 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { hasPermission as adminHasPermission, Permission } from '@/lib/permissions';
+
+interface CurrentAdmin {
+  _id: string;
+  username: string;
+  role: string;
+  permissions: string[];
+  email: string;
+  last_login: string | null;
+  is_active: boolean;
+}
 
 interface AuthContextType {
+  admin: CurrentAdmin | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (username: string, password: string) => boolean;
-  logout: () => void;
+  login: (username: string, password: string) => Promise<boolean>;
+  logout: () => Promise<void>;
+  refresh: () => Promise<void>;
+  hasPermission: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [admin, setAdmin] = useState<CurrentAdmin | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
-  useEffect(() => {
-    // Check localStorage on mount
-    const stored = localStorage.getItem('prosmart_auth');
-    if (stored === 'true') {
-      setIsAuthenticated(true);
+  const refresh = useCallback(async () => {
+    try {
+      const res = await fetch('/api/auth/me', { cache: 'no-store' });
+      const data = await res.json();
+      setAdmin(data.success ? data.data : null);
+    } catch (error) {
+      console.error('Error fetching session:', error);
+      setAdmin(null);
     }
-    setIsLoading(false);
   }, []);
 
-  const login = (username: string, password: string) => {
-    if (username === 'admin' && password === 'admin') {
-      setIsAuthenticated(true);
-      localStorage.setItem('prosmart_auth', 'true');
-      return true;
+  useEffect(() => {
+    // Check the session cookie on mount
+    refresh().finally(() => setIsLoading(false));
+  }, [refresh]);
+
+  const login = async (username: string, password: string) => {
+    try {
+      const res = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ username, password }),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        setAdmin(data.data);
+        return true;
+      }
+      return false;
+    } catch (error) {
+      console.error('Error logging in:', error);
+      return false;
     }
-    return false;
   };
 
-  const logout = () => {
-    setIsAuthenticated(false);
-    localStorage.removeItem('prosmart_auth');
+  const logout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('Error logging out:', error);
+    } finally {
+      setAdmin(null);
+    }
   };
 
+  const hasPermission = (permission: Permission) => adminHasPermission(admin, permission);
+
   return (
-    <AuthContext.Provider value={{ isAuthenticated, isLoading, login, logout }}>
+    <AuthContext.Provider
+      value={{ admin, isAuthenticated: admin !== null, isLoading, login, logout, refresh, hasPermission }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -52,4 +95,3 @@ export const useAuth = () => {
   }
   return context;
 };
-
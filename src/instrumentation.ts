@@ -0,0 +1,8 @@
+// Next.js calls this once when a server instance starts. Loading the configuration here makes a
+// missing or invalid environment variable stop the server with the full list of problems, instead
+// of surfacing on the first request that happens to need it.
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    await import('./config/env');
+  }
+}
@@ -0,0 +1,93 @@
+import { MongoServerError } from 'mongodb';
+import { getDatabase } from './mongodb';
+import { AuthService } from './auth-service';
+import { getNextId } from './id-generator';
+import { Admin, AdminFormData, AdminProfile, AdminUpdateData } from '@/types/product';
+
+export class AdminService {
+  static async getAllAdmins(): Promise<AdminProfile[]> {
+    const db = await getDatabase();
+    const admins = await db.collection('admins')
+      .find({}, { projection: { password: 0 } })
+      .sort({ created_at: 1 })
+      .toArray();
+    return admins as unknown as AdminProfile[];
+  }
+
+  static async getAdminById(adminId: string): Promise<AdminProfile | null> {
+    const db = await getDatabase();
+    const admin = await db.collection('admins').findOne(
+      { _id: adminId } as any,
+      { projection: { password: 0 } }
+    );
+    return admin as unknown as AdminProfile | null;
+  }
+
+  static async getAdminByUsername(username: string): Promise<AdminProfile | null> {
+    const db = await getDatabase();
+    const admin = await db.collection('admins').findOne(
+      { username },
+      { projection: { password: 0 } }
+    );
+    return admin as unknown as AdminProfile | null;
+  }
+
+  /** Returns null when the username is already taken, which the unique index decides */
+  static async createAdmin(adminData: AdminFormData): Promise<AdminProfile | null> {
+    const db = await getDatabase();
+    const adminId = await getNextId('admins');
+
+    const admin: Admin = {
+      _id: adminId,
+      username: adminData.username,
+      password: await AuthService.hashPassword(adminData.password),
+      role: adminData.role,
+      permissions: adminData.permissions,
+      email: adminData.email,
+      created_at: new Date(),
+      last_login: null,
+      is_active: adminData.is_active
+    };
+
+    try {
+      await db.collection('admins').insertOne(admin as any);
+    } catch (error) {
+      if (error instanceof MongoServerError && error.code === 11000) {
+        return null;
+      }
+      throw error;
+    }
+
+    return AuthService.toProfile(admin);
+  }
+
+  static async updateAdmin(adminId: string, updateData: AdminUpdateData): Promise<void> {
+    const db = await getDatabase();
+    await db.collection('admins').updateOne(
+      { _id: adminId } as any,
+      { $set: updateData }
+    );
+
+    // A deactivated admin must not keep working through an existing session
+    if (updateData.is_active === false) {
+      await AuthService.revokeSessionsForAdmin(adminId);
+    }
+  }
+
+  static async resetPassword(adminId: string, newPassword: string): Promise<void> {
+    const db = await getDatabase();
+    await db.collection('admins').updateOne(
+      { _id: adminId } as any,
+      { $set: { password: await AuthService.hashPassword(newPassword) } }
+    );
+    await AuthService.revokeSessionsForAdmin(adminId);
+  }
+
+  static async deleteAdmin(adminId: string): Promise<void> {
+    const db = await getDatabase();
+    await db.collection('admins').deleteOne({ _id: adminId } as any);
+    await AuthService.revokeSessionsForAdmin(adminId);
+  }
+}
+
+export default AdminService;
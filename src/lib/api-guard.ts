@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthService } from './auth-service';
+import { hasPermission, Permission } from './permissions';
+import { AdminProfile } from '@/types/product';
+
+interface RouteContext<P> {
+  params: P;
+}
+
+type GuardedHandler<P> = (
+  request: NextRequest,
+  context: RouteContext<P>,
+  admin: AdminProfile
+) => Promise<NextResponse>;
+
+export function withPermission<P = Record<string, string>>(
+  permission: Permission,
+  handler: GuardedHandler<P>
+) {
+  return async (request: NextRequest, context: RouteContext<P>) => {
+    let admin: AdminProfile | null;
+    try {
+      admin = await AuthService.getAdminFromRequest(request);
+    } catch (error) {
+      console.error('Error verifying session:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to verify session' },
+        { status: 500 }
+      );
+    }
+
+    if (!admin) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!hasPermission(admin, permission)) {
+      return NextResponse.json(
+        { success: false, error: `Missing permission: ${permission}` },
+        { status: 403 }
+      );
+    }
+
+    return handler(request, context, admin);
+  };
+}
@@ -0,0 +1,30 @@
+// Shared by API routes and the audit page, so this module must stay free of server-only imports
+export const AUDIT_ACTIONS = [
+  'product.create',
+  'product.update',
+  'product.trash',
+  'product.restore',
+  'product.purge',
+  'product.revision_restore',
+  'category.create',
+  'category.rename',
+  'category.delete',
+  'category.reconcile',
+  'subcategory.create',
+  'subcategory.update',
+  'subcategory.delete',
+  'subcategory.reconcile',
+  'admin.create',
+  'admin.update',
+  'admin.password_reset',
+  'admin.delete',
+  'auth.login',
+  'auth.login_failed',
+  'auth.logout',
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export function isAuditAction(value: string): value is AuditAction {
+  return (AUDIT_ACTIONS as readonly string[]).includes(value);
+}
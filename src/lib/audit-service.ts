@@ -0,0 +1,147 @@
+import { NextRequest } from 'next/server';
+import { getDatabase } from './mongodb';
+import { AuditAction } from './audit-actions';
+import { AdminProfile, AuditLogEntry, AuditTargetType, FieldChange } from '@/types/product';
+
+interface AuditEvent {
+  action: AuditAction;
+  target_type: AuditTargetType;
+  target_id: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+export interface AuditFilters {
+  admin_id?: string;
+  action?: string;
+  from?: Date;
+  to?: Date;
+}
+
+interface PaginatedAuditLog {
+  entries: AuditLogEntry[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export class AuditService {
+  /**
+   * Records an admin action. Auditing never fails the action it describes, so errors are
+   * logged and swallowed. `admin` is null for failed logins and scheduled jobs.
+   */
+  static async log(request: NextRequest | null, admin: AdminProfile | null, event: AuditEvent): Promise<void> {
+    try {
+      const db = await getDatabase();
+      await db.collection('audit_log').insertOne(this.toEntry(request, admin, event));
+    } catch (error) {
+      console.error(`Failed to write audit log entry for ${event.action}:`, error);
+    }
+  }
+
+  /** Records one entry per event in a single write, for bulk actions; never throws either */
+  static async logMany(request: NextRequest | null, admin: AdminProfile | null, events: AuditEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    try {
+      const db = await getDatabase();
+      await db.collection('audit_log').insertMany(events.map((event) => this.toEntry(request, admin, event)));
+    } catch (error) {
+      console.error(`Failed to write ${events.length} audit log entries:`, error);
+    }
+  }
+
+  /** Splits a field diff (as recorded for revisions) into before/after summaries */
+  static fromChanges(changes: Partial<Record<string, FieldChange>>) {
+    const before: Record<string, unknown> = {};
+    const after: Record<string, unknown> = {};
+    for (const [field, change] of Object.entries(changes)) {
+      if (!change) continue;
+      before[field] = change.from;
+      after[field] = change.to;
+    }
+    return { before, after };
+  }
+
+  static async getEntries(
+    page: number = 1,
+    limit: number = 25,
+    filters: AuditFilters = {}
+  ): Promise<PaginatedAuditLog> {
+    const db = await getDatabase();
+    const collection = db.collection('audit_log');
+
+    const query: Record<string, unknown> = {};
+
+    if (filters.admin_id) {
+      query.admin_id = filters.admin_id;
+    }
+
+    if (filters.action) {
+      // "product" matches every product.* action, "product.update" only that one
+      query.action = filters.action.includes('.')
+        ? filters.action
+        : { $regex: `^${filters.action}\\.` };
+    }
+
+    if (filters.from || filters.to) {
+      query.created_at = {
+        ...(filters.from && { $gte: filters.from }),
+        ...(filters.to && { $lte: filters.to })
+      };
+    }
+
+    const total = await collection.countDocuments(query);
+    const entries = await collection
+      .find(query)
+      .sort({ created_at: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .toArray();
+
+    return {
+      entries: entries as unknown as AuditLogEntry[],
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  /** Admins that appear in the log, for the audit page's filter */
+  static async getActors(): Promise<{ admin_id: string; username: string }[]> {
+    const db = await getDatabase();
+    const actors = await db.collection('audit_log').aggregate([
+      { $match: { admin_id: { $ne: null } } },
+      { $group: { _id: '$admin_id', username: { $last: '$admin_username' } } },
+      { $sort: { username: 1 } }
+    ]).toArray();
+
+    return actors.map((actor) => ({ admin_id: actor._id, username: actor.username }));
+  }
+
+  private static toEntry(request: NextRequest | null, admin: AdminProfile | null, event: AuditEvent) {
+    return {
+      admin_id: admin?._id ?? null,
+      admin_username: admin?.username ?? null,
+      action: event.action,
+      target_type: event.target_type,
+      target_id: event.target_id,
+      before: event.before ?? null,
+      after: event.after ?? null,
+      ip: request ? this.getClientIp(request) : null,
+      created_at: new Date()
+    };
+  }
+
+  private static getClientIp(request: NextRequest): string | null {
+    const forwardedFor = request.headers.get('x-forwarded-for');
+    if (forwardedFor) {
+      return forwardedFor.split(',')[0].trim();
+    }
+    return request.headers.get('x-real-ip') || request.ip || null;
+  }
+}
+
+export default AuditService;
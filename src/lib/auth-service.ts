@@ -0,0 +1,142 @@
+import { randomBytes, scrypt, createHash, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { NextRequest } from 'next/server';
+import { getDatabase } from './mongodb';
+import { config } from '@/config/env';
+import { Admin, AdminProfile, AdminSession } from '@/types/product';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+interface LoginResult {
+  admin: AdminProfile;
+  token: string;
+  expiresAt: Date;
+}
+
+export class AuthService {
+  // Passwords are stored as "scrypt:<salt>:<hash>" (hex encoded)
+  static async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16).toString('hex');
+    const hash = await scryptAsync(password, salt, KEY_LENGTH);
+    return `scrypt:${salt}:${hash.toString('hex')}`;
+  }
+
+  static async verifyPassword(password: string, storedHash: string): Promise<boolean> {
+    const [scheme, salt, hashHex] = storedHash.split(':');
+    if (scheme !== 'scrypt' || !salt || !hashHex) {
+      return false;
+    }
+
+    const expected = Buffer.from(hashHex, 'hex');
+    const actual = await scryptAsync(password, salt, expected.length);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  static toProfile(admin: Admin): AdminProfile {
+    const { password, ...profile } = admin;
+    return profile;
+  }
+
+  static async login(username: string, password: string): Promise<LoginResult | null> {
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      return null;
+    }
+
+    const db = await getDatabase();
+    const admin = await db.collection('admins').findOne({ username }) as unknown as Admin | null;
+
+    if (!admin || !admin.is_active) {
+      return null;
+    }
+
+    const isValid = await this.verifyPassword(password, admin.password);
+    if (!isValid) {
+      return null;
+    }
+
+    const lastLogin = new Date();
+    await db.collection('admins').updateOne(
+      { _id: admin._id } as any,
+      { $set: { last_login: lastLogin } }
+    );
+
+    const { token, expiresAt } = await this.createSession(admin._id);
+
+    return {
+      admin: this.toProfile({ ...admin, last_login: lastLogin }),
+      token,
+      expiresAt
+    };
+  }
+
+  static async createSession(adminId: string): Promise<{ token: string; expiresAt: Date }> {
+    const db = await getDatabase();
+    const token = randomBytes(32).toString('hex');
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + config.auth.sessionTtlDays * 24 * 60 * 60 * 1000);
+
+    const session: AdminSession = {
+      _id: this.hashToken(token),
+      admin_id: adminId,
+      created_at: now,
+      expires_at: expiresAt
+    };
+
+    await db.collection('admin_sessions').insertOne(session as any);
+
+    return { token, expiresAt };
+  }
+
+  static async getAdminBySessionToken(token: string): Promise<AdminProfile | null> {
+    const db = await getDatabase();
+    const session = await db.collection('admin_sessions').findOne(
+      { _id: this.hashToken(token) } as any
+    ) as unknown as AdminSession | null;
+
+    if (!session) {
+      return null;
+    }
+
+    if (session.expires_at < new Date()) {
+      await db.collection('admin_sessions').deleteOne({ _id: session._id } as any);
+      return null;
+    }
+
+    const admin = await db.collection('admins').findOne(
+      { _id: session.admin_id } as any
+    ) as unknown as Admin | null;
+
+    if (!admin || !admin.is_active) {
+      return null;
+    }
+
+    return this.toProfile(admin);
+  }
+
+  static async getAdminFromRequest(request: NextRequest): Promise<AdminProfile | null> {
+    const token = request.cookies.get(config.auth.sessionCookieName)?.value;
+    if (!token) {
+      return null;
+    }
+    return this.getAdminBySessionToken(token);
+  }
+
+  static async destroySession(token: string): Promise<void> {
+    const db = await getDatabase();
+    await db.collection('admin_sessions').deleteOne({ _id: this.hashToken(token) } as any);
+  }
+
+  static async revokeSessionsForAdmin(adminId: string): Promise<void> {
+    const db = await getDatabase();
+    await db.collection('admin_sessions').deleteMany({ admin_id: adminId });
+  }
+
+  private static hashToken(token: string): string {
+    // Only a digest of the token is stored so a leaked sessions collection cannot be replayed
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
+
+export default AuthService;
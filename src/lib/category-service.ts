@@ -0,0 +1,145 @@
+import { getDatabase } from './mongodb';
+import { CloudinaryService } from './cloudinary';
+import { getNextId } from './id-generator';
+import { Category, Product } from '@/types/product';
+
+export interface ImageMoveResult {
+  moved: number;
+  failed: string[];
+}
+
+export interface ImageMoveBatchResult extends ImageMoveResult {
+  // Products not reached before the time budget ran out; 0 once the move is complete
+  remaining: number;
+}
+
+// Image moves are one Cloudinary rename each, so a request stops starting new products after
+// this long and leaves the rest to the next request, well inside the 30 second function timeout
+const IMAGE_MOVE_BUDGET_MS = 20 * 1000;
+
+export class CategoryService {
+  static async getCategoryById(categoryId: string): Promise<Category | null> {
+    const db = await getDatabase();
+    const category = await db.collection('categories').findOne({ _id: categoryId } as any);
+    return category as unknown as Category | null;
+  }
+
+  static async getCategoryByName(categoryName: string): Promise<Category | null> {
+    const db = await getDatabase();
+    const category = await db.collection('categories').findOne(
+      { category_name: categoryName },
+      { collation: { locale: 'en', strength: 2 } }
+    );
+    return category as unknown as Category | null;
+  }
+
+  static async createCategory(categoryName: string): Promise<Category> {
+    const db = await getDatabase();
+    const categoryId = await getNextId('categories');
+
+    const category: Category = {
+      _id: categoryId,
+      category_name: categoryName,
+      product_ids: [],
+      subcategory_ids: [],
+      product_count: 0,
+      subcategory_count: 0,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+
+    await db.collection('categories').insertOne(category as any);
+
+    return category;
+  }
+
+  /** Renames a category and starts moving its products' images; see `moveCategoryImages` */
+  static async renameCategory(categoryId: string, categoryName: string): Promise<ImageMoveBatchResult> {
+    const db = await getDatabase();
+
+    await db.collection('categories').updateOne(
+      { _id: categoryId } as any,
+      { $set: { category_name: categoryName, updated_at: new Date() } }
+    );
+
+    return this.moveCategoryImages(categoryId, categoryName);
+  }
+
+  /**
+   * Moves the images of a category's products into the folder for its current name, for as long
+   * as the time budget allows. Images already in place cost no Cloudinary call, so calling this
+   * again until `remaining` is 0 resumes the move where the previous call stopped.
+   */
+  static async moveCategoryImages(categoryId: string, categoryName: string): Promise<ImageMoveBatchResult> {
+    const db = await getDatabase();
+    const deadline = Date.now() + IMAGE_MOVE_BUDGET_MS;
+
+    // Image folders are named after the category, so every product's images move along with it
+    const products = await db.collection('products')
+      .find({ category_id: categoryId }, { projection: { image_urls: 1 } })
+      .sort({ _id: 1 })
+      .toArray() as unknown as Product[];
+
+    return this.moveProductImages(products, 0, categoryName, deadline);
+  }
+
+  static async deleteCategory(categoryId: string): Promise<void> {
+    const db = await getDatabase();
+
+    // Subcategories cannot outlive their category; callers ensure none of them has products
+    await db.collection('subcategories').deleteMany({ category_id: categoryId });
+    await db.collection('categories').deleteOne({ _id: categoryId } as any);
+  }
+
+  static async countProductsInCategory(categoryId: string): Promise<number> {
+    const db = await getDatabase();
+    return await db.collection('products').countDocuments({ category_id: categoryId });
+  }
+
+  static async moveProductImages(
+    products: Product[],
+    level: 0 | 1,
+    newName: string,
+    deadline = Infinity
+  ): Promise<ImageMoveBatchResult> {
+    const db = await getDatabase();
+    const result: ImageMoveBatchResult = { moved: 0, failed: [], remaining: 0 };
+
+    for (let i = 0; i < products.length; i++) {
+      if (Date.now() >= deadline) {
+        result.remaining = products.length - i;
+        break;
+      }
+
+      const product = products[i];
+      const imageUrls: string[] = [];
+      let changed = false;
+
+      for (const url of product.image_urls || []) {
+        try {
+          const newUrl = await CloudinaryService.moveImageToFolder(url, level, newName);
+          if (newUrl !== url) {
+            changed = true;
+            result.moved++;
+          }
+          imageUrls.push(newUrl);
+        } catch (error) {
+          console.error(`Error moving image ${url} for ${product._id}:`, error);
+          result.failed.push(url);
+          imageUrls.push(url);
+        }
+      }
+
+      if (changed) {
+        await db.collection('products').updateOne(
+          { _id: product._id } as any,
+          { $set: { image_urls: imageUrls, updated_at: new Date() } }
+        );
+      }
+    }
+
+    return result;
+  }
+}
+
+export default CategoryService;
@@ -19,25 +19,31 @@ export interface CloudinaryUploadResult {
 }
 
 export class CloudinaryService {
+  /**
+   * Uploads one product image. A string source is a remote http(s) URL that Cloudinary downloads
+   * itself, so the URL is never requested from our server; `timeoutMs` bounds the whole upload.
+   */
   static async uploadImage(
-    buffer: Buffer, 
+    source: Buffer | string, 
     productId: string, 
     categoryName: string, 
     subcategoryName: string, 
-    imageIndex: number
+    imageIndex: number,
+    timeoutMs?: number
   ): Promise<string> {
     try {
       // Create folder structure: Category/Subcategory/ProductID/
-      const folderPath = `${categoryName.replace(/\s+/g, '_')}/${subcategoryName.replace(/\s+/g, '_')}/${productId}`;
+      const folderPath = `${this.toFolderName(categoryName)}/${this.toFolderName(subcategoryName)}/${productId}`;
       const publicId = `${folderPath}/${productId}_img${imageIndex}`;
 
       const result = await cloudinary.uploader.upload(
-        `data:image/jpeg;base64,${buffer.toString('base64')}`,
+        typeof source === 'string' ? source : `data:image/jpeg;base64,${source.toString('base64')}`,
         {
           public_id: publicId,
           overwrite: true,
           resource_type: 'image',
-          folder: folderPath
+          folder: folderPath,
+          ...(timeoutMs ? { timeout: timeoutMs } : {})
         }
       );
 
@@ -49,22 +55,30 @@ export class CloudinaryService {
   }
 
   static async uploadMultipleImages(
-    files: Buffer[], 
+    files: Array<Buffer | string>, 
     productId: string, 
     categoryName: string, 
-    subcategoryName: string
+    subcategoryName: string,
+    startIndex: number = 1,
+    timeoutMs?: number
   ): Promise<string[]> {
-    const uploadPromises = files.map((buffer, index) => 
-      this.uploadImage(buffer, productId, categoryName, subcategoryName, index + 1)
+    const uploadPromises = files.map((source, index) => 
+      this.uploadImage(source, productId, categoryName, subcategoryName, startIndex + index, timeoutMs)
     );
 
-    try {
-      const urls = await Promise.all(uploadPromises);
-      return urls;
-    } catch (error) {
-      console.error('Error uploading multiple images:', error);
+    const results = await Promise.allSettled(uploadPromises);
+    const urls = results
+      .filter((result): result is PromiseFulfilledResult<string> => result.status === 'fulfilled')
+      .map((result) => result.value);
+
+    if (urls.length !== files.length) {
+      // Don't leave the images that did upload behind when the batch as a whole failed
+      await this.deleteImagesByUrl(urls);
+      console.error('Error uploading multiple images:', results);
       throw new Error('Failed to upload images to Cloudinary');
     }
+
+    return urls;
   }
 
   static async deleteImage(publicId: string): Promise<void> {
@@ -76,6 +90,77 @@ export class CloudinaryService {
     }
   }
 
+  /**
+   * Best-effort cleanup of several images; never throws and returns the URLs
+   * that could not be deleted so callers can report them.
+   */
+  static async deleteImagesByUrl(urls: string[]): Promise<string[]> {
+    const failed: string[] = [];
+
+    for (const url of urls) {
+      const publicId = this.extractPublicIdFromUrl(url);
+      if (!publicId) continue;
+
+      try {
+        await this.deleteImage(publicId);
+      } catch {
+        failed.push(url);
+      }
+    }
+
+    return failed;
+  }
+
+  static async renameImage(fromPublicId: string, toPublicId: string): Promise<string> {
+    try {
+      const result = await cloudinary.uploader.rename(fromPublicId, toPublicId, {
+        overwrite: true,
+        invalidate: true
+      });
+      return result.secure_url;
+    } catch (error) {
+      console.error('Error renaming image in Cloudinary:', error);
+      throw new Error('Failed to rename image in Cloudinary');
+    }
+  }
+
+  /**
+   * Moves an image into the folder for a renamed category (level 0) or subcategory (level 1)
+   * and returns its new URL. Returns the original URL when nothing needs to move.
+   */
+  static async moveImageToFolder(url: string, level: 0 | 1, newName: string): Promise<string> {
+    const publicId = this.extractPublicIdFromUrl(url);
+    if (!publicId) return url;
+
+    // Public ids are built from Category/Subcategory/ProductID groups followed by the file
+    // name; uploads that also pass `folder` repeat the group, so every group is updated.
+    const segments = publicId.split('/');
+    const newFolderName = this.toFolderName(newName);
+    const movedSegments = segments.map((segment, index) =>
+      index < segments.length - 1 && index % 3 === level ? newFolderName : segment
+    );
+    const newPublicId = movedSegments.join('/');
+
+    if (newPublicId === publicId) return url;
+    return this.renameImage(publicId, newPublicId);
+  }
+
+  /**
+   * Returns the first image index not used by any of the given URLs, so new uploads
+   * never overwrite (and break) an image the product still references.
+   */
+  static getNextImageIndex(urls: string[]): number {
+    const indexes = urls.map((url) => {
+      const match = this.extractPublicIdFromUrl(url).match(/_img(\d+)$/);
+      return match ? parseInt(match[1]) : 0;
+    });
+    return Math.max(0, ...indexes) + 1;
+  }
+
+  static toFolderName(name: string): string {
+    return name.replace(/\s+/g, '_');
+  }
+
   static extractPublicIdFromUrl(url: string): string {
     // Extract public_id from Cloudinary URL
     const parts = url.split('/');
@@ -0,0 +1,89 @@
+import { MongoServerError } from 'mongodb';
+import { getDatabase } from './mongodb';
+import { IdConvention } from '@/types/product';
+
+interface IdFormat {
+  prefix: string;
+  padding: number;
+}
+
+// Used when a collection has no entry in id_conventions
+const DEFAULT_ID_FORMATS: Record<string, IdFormat> = {
+  products: { prefix: 'prod', padding: 4 },
+  categories: { prefix: 'cat', padding: 3 },
+  subcategories: { prefix: 'subcat', padding: 3 },
+  admins: { prefix: 'admin', padding: 3 },
+};
+
+async function getIdFormat(collectionName: string): Promise<IdFormat> {
+  const db = await getDatabase();
+  const convention = await db.collection('id_conventions').findOne(
+    { collection_name: collectionName }
+  ) as unknown as IdConvention | null;
+
+  const fallback = DEFAULT_ID_FORMATS[collectionName] || { prefix: collectionName, padding: 3 };
+  if (!convention) {
+    return fallback;
+  }
+
+  const prefix = convention.prefix.replace(/_+$/, '');
+  // The example (e.g. "prod_0001") tells us how wide the number is
+  const digits = convention.example?.match(/(\d+)$/)?.[1];
+
+  return {
+    prefix,
+    padding: digits ? digits.length : fallback.padding
+  };
+}
+
+async function getHighestExistingNumber(collectionName: string, idPrefix: string): Promise<number> {
+  const db = await getDatabase();
+
+  const pipeline = [
+    { $match: { "_id": { $regex: `^${idPrefix}\\d+$` } } },
+    { $project: { "numeric_part": { $toInt: { $substr: ["$_id", idPrefix.length, -1] } } } },
+    { $sort: { "numeric_part": -1 } },
+    { $limit: 1 }
+  ];
+
+  const result = await db.collection(collectionName).aggregate(pipeline).toArray();
+  return result.length > 0 ? result[0].numeric_part : 0;
+}
+
+/**
+ * Returns the next id for a collection, e.g. prod_0042, using an atomic counter in the
+ * counters collection so concurrent creates never receive the same id.
+ */
+export async function getNextId(collectionName: string): Promise<string> {
+  const db = await getDatabase();
+  const counters = db.collection('counters');
+  const { prefix, padding } = await getIdFormat(collectionName);
+  const idPrefix = `${prefix}_`;
+
+  // The first time a counter is used, start it after the highest id already in the collection
+  const counter = await counters.findOne({ _id: collectionName } as any);
+  if (!counter) {
+    const highest = await getHighestExistingNumber(collectionName, idPrefix);
+    try {
+      await counters.updateOne(
+        { _id: collectionName } as any,
+        { $max: { seq: highest } },
+        { upsert: true }
+      );
+    } catch (error) {
+      // Another request seeded the counter at the same time
+      if (!(error instanceof MongoServerError && error.code === 11000)) {
+        throw error;
+      }
+    }
+  }
+
+  const updated = await counters.findOneAndUpdate(
+    { _id: collectionName } as any,
+    { $inc: { seq: 1 } },
+    { upsert: true, returnDocument: 'after' }
+  );
+
+  const nextNum: number = updated?.seq ?? 1;
+  return `${idPrefix}${nextNum.toString().padStart(padding, '0')}`;
+}
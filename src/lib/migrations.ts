@@ -0,0 +1,173 @@
+import { Collection, Db, MongoServerError } from 'mongodb';
+
+interface Migration {
+  // Applied in array order and recorded under this id, so never rename or reorder existing entries
+  id: string;
+  description: string;
+  up: (db: Db) => Promise<void>;
+}
+
+export interface MigrationRecord {
+  _id: string;
+  description: string;
+  status: 'running' | 'applied';
+  started_at: Date;
+  applied_at: Date | null;
+}
+
+export interface MigrationStatus {
+  id: string;
+  description: string;
+  status: 'pending' | 'stuck' | MigrationRecord['status'];
+  started_at: Date | null;
+  applied_at: Date | null;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    id: '001-product-indexes',
+    description: 'Index products by category, subcategory, trash state and creation date, plus the search text index',
+    up: async (db) => {
+      const products = db.collection('products');
+      await products.createIndex({ category_id: 1 }, { name: 'product_category_id' });
+      await products.createIndex({ subcategory_id: 1 }, { name: 'product_subcategory_id' });
+      await products.createIndex({ deleted_at: 1 }, { name: 'product_deleted_at' });
+      // Newest-first listing, and the keyset that cursor paging resumes from
+      await products.createIndex({ created_at: -1, _id: -1 }, { name: 'product_created_at_id' });
+      await products.createIndex(
+        { product_name: 'text', product_title: 'text', product_description: 'text' },
+        {
+          name: 'product_text_search',
+          weights: { product_name: 10, product_title: 5, product_description: 1 },
+        }
+      );
+    },
+  },
+  {
+    id: '002-backfill-product-fields',
+    description: 'Give products created before statuses and image counts existed a status and image_count',
+    up: async (db) => {
+      const products = db.collection('products');
+      await products.updateMany({ status: { $exists: false } }, { $set: { status: 'active' } });
+      await products.updateMany(
+        { image_count: { $exists: false } },
+        [{ $set: { image_count: { $size: { $ifNull: ['$image_urls', []] } } } }]
+      );
+    },
+  },
+  {
+    id: '003-history-indexes',
+    description: 'Index product revisions by product and the audit log by date',
+    up: async (db) => {
+      await db.collection('product_revisions').createIndex(
+        { product_id: 1, revision: -1 },
+        { name: 'revision_product_id_revision' }
+      );
+      await db.collection('audit_log').createIndex({ created_at: -1 }, { name: 'audit_created_at' });
+    },
+  },
+  {
+    id: '004-admin-username-unique',
+    description: 'Make admin usernames unique, so two concurrent creates cannot both take one',
+    up: async (db) => {
+      // Fails while duplicates exist; rename or remove them and run the migration again
+      await db.collection('admins').createIndex({ username: 1 }, { name: 'admin_username_unique', unique: true });
+    },
+  },
+];
+
+// A migration still `running` after this long is taken to be abandoned by a process that died
+// (a serverless function past its time limit, say) and may be claimed again
+export const MIGRATION_LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+
+function isAbandoned(record: Pick<MigrationRecord, 'status' | 'started_at'>, now = Date.now()): boolean {
+  return record.status === 'running' && now - record.started_at.getTime() > MIGRATION_LOCK_TIMEOUT_MS;
+}
+
+// Claims a migration by inserting its record, or by taking over a record left `running` by a
+// dead process (any `running` record with `force`); 'busy' means another process holds it
+async function claim(
+  records: Collection<MigrationRecord>,
+  migration: Migration,
+  force: boolean
+): Promise<'claimed' | 'applied' | 'busy'> {
+  const startedAt = new Date();
+  try {
+    await records.insertOne({
+      _id: migration.id,
+      description: migration.description,
+      status: 'running',
+      started_at: startedAt,
+      applied_at: null,
+    });
+    return 'claimed';
+  } catch (error) {
+    if (!(error instanceof MongoServerError && error.code === 11000)) throw error;
+  }
+
+  const existing = await records.findOne({ _id: migration.id });
+  if (!existing || existing.status === 'applied') return 'applied';
+  if (!force && !isAbandoned(existing)) return 'busy';
+
+  // Matching on the old started_at means only one of several racing processes wins the takeover
+  const takeover = await records.updateOne(
+    { _id: migration.id, status: 'running', started_at: existing.started_at },
+    { $set: { started_at: startedAt } }
+  );
+  return takeover.modifiedCount === 1 ? 'claimed' : 'busy';
+}
+
+/**
+ * Applies every migration not yet recorded in the `migrations` collection, in order, and returns
+ * the ids it applied. A migration is claimed by inserting its record first, so when several
+ * instances start at once only one of them runs it; the others stop there rather than run later
+ * migrations out of order. A failed migration is unclaimed again and the error rethrown, leaving
+ * it and everything after it pending. `force` takes over `running` records however recent.
+ */
+export async function runMigrations(
+  db: Db,
+  log: (message: string) => void = () => {},
+  options: { force?: boolean } = {}
+): Promise<string[]> {
+  const records = db.collection<MigrationRecord>('migrations');
+  const applied: string[] = [];
+
+  for (const migration of MIGRATIONS) {
+    const claimed = await claim(records, migration, options.force ?? false);
+    if (claimed === 'applied') continue;
+    if (claimed === 'busy') {
+      log(`${migration.id} is being applied by another process; stopping here`);
+      break;
+    }
+
+    log(`Applying ${migration.id}: ${migration.description}`);
+    try {
+      await migration.up(db);
+    } catch (error) {
+      await records.deleteOne({ _id: migration.id });
+      throw error;
+    }
+
+    await records.updateOne({ _id: migration.id }, { $set: { status: 'applied', applied_at: new Date() } });
+    applied.push(migration.id);
+  }
+
+  return applied;
+}
+
+// Every known migration with whether (and when) it has been applied; `stuck` is an abandoned `running` one
+export async function getMigrationStatus(db: Db): Promise<MigrationStatus[]> {
+  const records = await db.collection<MigrationRecord>('migrations').find({}).toArray();
+  const byId = new Map(records.map((record) => [record._id, record]));
+
+  return MIGRATIONS.map((migration) => {
+    const record = byId.get(migration.id);
+    return {
+      id: migration.id,
+      description: migration.description,
+      status: !record ? 'pending' : isAbandoned(record) ? 'stuck' : record.status,
+      started_at: record?.started_at ?? null,
+      applied_at: record?.applied_at ?? null,
+    };
+  });
+}
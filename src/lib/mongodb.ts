@@ -1,5 +1,6 @@
-import { MongoClient, Db } from 'mongodb';
+import { MongoClient, Db, ClientSession } from 'mongodb';
 import { config } from '@/config/env';
+import { runMigrations } from './migrations';
 
 let client: MongoClient;
 let db: Db;
@@ -15,6 +16,7 @@ export async function connectToDatabase() {
     db = client.db(config.mongodb.db);
     
     console.log('✅ Connected to MongoDB');
+    await migrateOnStartup(db);
     return { client, db };
   } catch (error) {
     console.error('❌ Failed to connect to MongoDB:', error);
@@ -22,9 +24,38 @@ export async function connectToDatabase() {
   }
 }
 
+// Runs pending migrations on the first connection of each server instance
+async function migrateOnStartup(database: Db) {
+  try {
+    const applied = await runMigrations(database, (message) => console.log(`🛠️ ${message}`));
+    if (applied.length > 0) {
+      console.log(`✅ Applied ${applied.length} migration(s)`);
+    }
+  } catch (error) {
+    // Queries still work without the indexes, only slower, so serve requests and retry next start
+    console.error('❌ Failed to run MongoDB migrations:', error);
+  }
+}
+
 export async function getDatabase() {
   if (!db) {
     await connectToDatabase();
   }
   return db;
 }
+
+// Runs the callback inside a MongoDB transaction; writes must pass the session to take part in it
+export async function withTransaction<T>(callback: (session: ClientSession) => Promise<T>): Promise<T> {
+  const { client } = await connectToDatabase();
+  const session = client.startSession();
+
+  try {
+    let result: T | undefined;
+    await session.withTransaction(async () => {
+      result = await callback(session);
+    });
+    return result as T;
+  } finally {
+    await session.endSession();
+  }
+}
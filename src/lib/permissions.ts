@@ -0,0 +1,47 @@
+// Shared by API routes and client components, so this module must stay free of server-only imports
+export const PERMISSIONS = [
+  'products:read',
+  'products:write',
+  'products:delete',
+  'taxonomy:write',
+  'admins:manage',
+  'audit:read',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLES = ['super_admin', 'admin', 'editor', 'viewer'] as const;
+
+export type Role = typeof ROLES[number];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  super_admin: [...PERMISSIONS],
+  admin: ['products:read', 'products:write', 'products:delete', 'taxonomy:write', 'audit:read'],
+  editor: ['products:read', 'products:write'],
+  viewer: ['products:read'],
+};
+
+interface PermissionHolder {
+  role: string;
+  permissions: string[];
+}
+
+export function isPermission(value: string): value is Permission {
+  return (PERMISSIONS as readonly string[]).includes(value);
+}
+
+export function isRole(value: string): value is Role {
+  return (ROLES as readonly string[]).includes(value);
+}
+
+// Effective permissions are the role defaults plus any permissions granted individually
+export function getEffectivePermissions(admin: PermissionHolder): Permission[] {
+  const rolePermissions = isRole(admin.role) ? ROLE_PERMISSIONS[admin.role] : [];
+  const granted = (admin.permissions || []).filter(isPermission);
+  return Array.from(new Set([...rolePermissions, ...granted]));
+}
+
+export function hasPermission(admin: PermissionHolder | null, permission: Permission): boolean {
+  if (!admin) return false;
+  return getEffectivePermissions(admin).includes(permission);
+}
@@ -0,0 +1,144 @@
+import * as XLSX from 'xlsx';
+import { ProductService, ProductFilters } from './product-service';
+import { ProductSort } from './product-list-options';
+import { Product } from '@/types/product';
+
+export const EXPORT_FORMATS = ['csv', 'json', 'xlsx'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Header names match the import columns, so an export can be edited and imported again
+const EXPORT_COLUMNS = [
+  'product_id',
+  'product_name',
+  'product_title',
+  'product_description',
+  'category_id',
+  'category_name',
+  'subcategory_id',
+  'subcategory_name',
+  'status',
+  'image_urls',
+  'created_at',
+  'updated_at',
+] as const;
+
+type ExportRow = Record<Exclude<(typeof EXPORT_COLUMNS)[number], 'image_urls'>, string> & {
+  image_urls: string[];
+};
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export interface ProductExport {
+  body: ReadableStream<Uint8Array> | ArrayBuffer;
+  contentType: string;
+  filename: string;
+}
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+function toIsoString(value: Date | string | undefined): string {
+  return value ? new Date(value).toISOString() : '';
+}
+
+function csvCell(value: string | string[]): string {
+  const joined = Array.isArray(value) ? value.join(' | ') : value;
+  // Spreadsheet apps run a cell starting with one of these as a formula; the quote keeps it text
+  const text = /^[=+\-@\t\r]/.test(joined) ? `'${joined}` : joined;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export class ProductExportService {
+  /**
+   * Exports every product matching the filters. CSV and JSON are streamed from the database
+   * cursor; XLSX has to be assembled in memory because the workbook is a zip archive.
+   */
+  static async export(format: ExportFormat, filters: ProductFilters, sort?: ProductSort): Promise<ProductExport> {
+    const [categories, subcategories] = await Promise.all([
+      ProductService.getAllCategories(),
+      ProductService.getAllSubcategories(),
+    ]);
+    const categoryNames = new Map(categories.map((c) => [c._id, c.category_name]));
+    const subcategoryNames = new Map(subcategories.map((s) => [s._id, s.subcategory_name]));
+
+    const toRow = (product: Product): ExportRow => ({
+      product_id: product.product_id,
+      product_name: product.product_name,
+      product_title: product.product_title,
+      product_description: product.product_description,
+      category_id: product.category_id,
+      category_name: categoryNames.get(product.category_id) || '',
+      subcategory_id: product.subcategory_id,
+      subcategory_name: subcategoryNames.get(product.subcategory_id) || '',
+      status: product.status,
+      image_urls: product.image_urls || [],
+      created_at: toIsoString(product.created_at),
+      updated_at: toIsoString(product.updated_at),
+    });
+
+    const cursor = await ProductService.getProductsCursor(filters, sort);
+    const filename = `products-${new Date().toISOString().slice(0, 10)}.${format}`;
+    const contentType = CONTENT_TYPES[format];
+
+    if (format === 'xlsx') {
+      const rows: Record<string, string>[] = [];
+      for await (const product of cursor) {
+        const row = toRow(product);
+        rows.push({ ...row, image_urls: row.image_urls.join(' | ') });
+      }
+
+      const workbook = XLSX.utils.book_new();
+      const sheet = XLSX.utils.json_to_sheet(rows, { header: [...EXPORT_COLUMNS] });
+      XLSX.utils.book_append_sheet(workbook, sheet, 'Products');
+      const body = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+
+      return { body, contentType, filename };
+    }
+
+    const encoder = new TextEncoder();
+    let isFirst = true;
+
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(
+          format === 'csv' ? `${EXPORT_COLUMNS.join(',')}\r\n` : '['
+        ));
+      },
+      async pull(controller) {
+        try {
+          const product = await cursor.next();
+          if (!product) {
+            if (format === 'json') {
+              controller.enqueue(encoder.encode(isFirst ? ']' : '\n]'));
+            }
+            controller.close();
+            return;
+          }
+
+          const row = toRow(product);
+          const chunk = format === 'csv'
+            ? `${EXPORT_COLUMNS.map((column) => csvCell(row[column])).join(',')}\r\n`
+            : `${isFirst ? '' : ','}\n${JSON.stringify(row)}`;
+          isFirst = false;
+          controller.enqueue(encoder.encode(chunk));
+        } catch (error) {
+          console.error('Error streaming product export:', error);
+          await cursor.close();
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await cursor.close();
+      },
+    });
+
+    return { body, contentType, filename };
+  }
+}
+
+export default ProductExportService;
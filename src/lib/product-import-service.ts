@@ -0,0 +1,289 @@
+import * as XLSX from 'xlsx';
+import { ProductService } from './product-service';
+import { CloudinaryService } from './cloudinary';
+import { FieldError, productCreateSchema, validatePayload } from './validation';
+import { Category, ImportRowInput, ImportRowResult, ProductFormData, Subcategory } from '@/types/product';
+
+export const MAX_IMPORT_ROWS = 1000;
+// Rows are created in small batches, all rows of a batch and all images of a row at once, so a
+// batch takes about as long as its slowest image upload: at most IMAGE_UPLOAD_TIMEOUT_MS, well
+// inside the 30 second function timeout
+export const MAX_IMPORT_BATCH = 5;
+const MAX_IMAGES = 10;
+const IMAGE_UPLOAD_TIMEOUT_MS = 15000;
+
+// Spreadsheet headers (lowercased, spaces as underscores) and the field each one fills
+const COLUMN_ALIASES: Record<string, keyof Omit<ImportRowInput, 'row'>> = {
+  name: 'product_name',
+  product_name: 'product_name',
+  title: 'product_title',
+  product_title: 'product_title',
+  description: 'product_description',
+  product_description: 'product_description',
+  category: 'category',
+  category_name: 'category',
+  category_id: 'category_id',
+  subcategory: 'subcategory',
+  subcategory_name: 'subcategory',
+  subcategory_id: 'subcategory_id',
+  images: 'image_urls',
+  image_urls: 'image_urls',
+};
+
+interface Taxonomy {
+  categories: Category[];
+  subcategories: Subcategory[];
+}
+
+type ResolvedRow = Omit<ProductFormData, 'images'> & {
+  image_urls: string[];
+  category_name: string;
+  subcategory_name: string;
+};
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.localeCompare(b, 'en', { sensitivity: 'base' }) === 0;
+}
+
+export class ProductImportService {
+  /** Reads the first sheet of a CSV or XLSX file into import rows */
+  static parseFile(buffer: Buffer): ImportRowInput[] {
+    const workbook = XLSX.read(buffer, { type: 'buffer' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) {
+      return [];
+    }
+
+    const records = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '', raw: false });
+
+    return records.map((record, index) => {
+      const input: ImportRowInput = {
+        // Row 1 is the header, so the first record is spreadsheet row 2
+        row: index + 2,
+        product_name: '',
+        product_title: '',
+        product_description: '',
+        category: '',
+        category_id: '',
+        subcategory: '',
+        subcategory_id: '',
+        image_urls: [],
+      };
+
+      for (const [header, value] of Object.entries(record)) {
+        const field = COLUMN_ALIASES[header.trim().toLowerCase().replace(/\s+/g, '_')];
+        if (!field) continue;
+
+        // Undo the quote an export puts before formula-like cells, so exported files round-trip
+        const text = String(value ?? '').trim().replace(/^'(?=[=+\-@\t\r])/, '');
+        if (field === 'image_urls') {
+          // Cloudinary transformation URLs contain commas, so only split on whitespace, | and ;
+          input.image_urls = text.split(/[\s|;]+/).filter(Boolean);
+        } else {
+          input[field] = text;
+        }
+      }
+
+      return input;
+    });
+  }
+
+  /** Rebuilds an import row sent back by the client for the commit step */
+  static fromJson(value: unknown): ImportRowInput | null {
+    if (typeof value !== 'object' || value === null) {
+      return null;
+    }
+
+    const record = value as Record<string, unknown>;
+    const text = (field: string) => (typeof record[field] === 'string' ? (record[field] as string).trim() : '');
+
+    if (typeof record.row !== 'number' || !Array.isArray(record.image_urls)) {
+      return null;
+    }
+
+    return {
+      row: record.row,
+      product_name: text('product_name'),
+      product_title: text('product_title'),
+      product_description: text('product_description'),
+      category: text('category'),
+      category_id: text('category_id'),
+      subcategory: text('subcategory'),
+      subcategory_id: text('subcategory_id'),
+      image_urls: record.image_urls.filter((url): url is string => typeof url === 'string'),
+    };
+  }
+
+  static async validateRows(rows: ImportRowInput[]): Promise<ImportRowResult[]> {
+    const taxonomy = await this.loadTaxonomy();
+    return rows.map((input) => {
+      const { errors, resolved } = this.validateRow(input, taxonomy);
+      return {
+        row: input.row,
+        input,
+        errors,
+        category_name: resolved?.category_name,
+        subcategory_name: resolved?.subcategory_name,
+      };
+    });
+  }
+
+  /**
+   * Validates and creates the rows concurrently, returning their results in input order. Rows that
+   * fail validation or whose images cannot be fetched are reported and skipped; the other rows are
+   * still created.
+   */
+  static async importRows(rows: ImportRowInput[]): Promise<ImportRowResult[]> {
+    const taxonomy = await this.loadTaxonomy();
+
+    return Promise.all(rows.map(async (input) => {
+      const { errors, resolved } = this.validateRow(input, taxonomy);
+      const result: ImportRowResult = {
+        row: input.row,
+        input,
+        errors,
+        category_name: resolved?.category_name,
+        subcategory_name: resolved?.subcategory_name,
+      };
+
+      if (resolved) {
+        try {
+          result.product_id = await this.createProduct(resolved);
+        } catch (error) {
+          console.error(`Error importing row ${input.row}:`, error);
+          result.errors.push({
+            field: '_row',
+            message: error instanceof Error ? error.message : 'Failed to create product'
+          });
+        }
+      }
+
+      return result;
+    }));
+  }
+
+  private static async loadTaxonomy(): Promise<Taxonomy> {
+    const [categories, subcategories] = await Promise.all([
+      ProductService.getAllCategories(),
+      ProductService.getAllSubcategories(),
+    ]);
+    return { categories, subcategories };
+  }
+
+  private static validateRow(
+    input: ImportRowInput,
+    taxonomy: Taxonomy
+  ): { errors: FieldError[]; resolved: ResolvedRow | null } {
+    const errors: FieldError[] = [];
+
+    // Categories can be given by id or by name; an id wins when both are present
+    const category = input.category_id
+      ? taxonomy.categories.find((c) => c._id === input.category_id)
+      : taxonomy.categories.find((c) => sameName(c.category_name, input.category));
+    if (!input.category_id && !input.category) {
+      errors.push({ field: 'category', message: 'Category is required' });
+    } else if (!category) {
+      errors.push({ field: 'category', message: `Category "${input.category_id || input.category}" does not exist` });
+    }
+
+    const subcategory = category && (input.subcategory_id
+      ? taxonomy.subcategories.find((s) => s._id === input.subcategory_id && s.category_id === category._id)
+      : taxonomy.subcategories.find((s) => s.category_id === category._id && sameName(s.subcategory_name, input.subcategory)));
+    if (!input.subcategory_id && !input.subcategory) {
+      errors.push({ field: 'subcategory', message: 'Subcategory is required' });
+    } else if (category && !subcategory) {
+      errors.push({
+        field: 'subcategory',
+        message: `Subcategory "${input.subcategory_id || input.subcategory}" does not exist in ${category.category_name}`
+      });
+    }
+
+    const validation = validatePayload<Omit<ProductFormData, 'images'>>({
+      product_name: input.product_name,
+      // Like the new product form, the title falls back to the name
+      product_title: input.product_title || input.product_name,
+      product_description: input.product_description,
+      category_id: category?._id ?? '',
+      subcategory_id: subcategory?._id ?? '',
+    }, productCreateSchema);
+    if (!validation.valid) {
+      // Missing taxonomy is already reported above under the spreadsheet's own column names
+      errors.push(...validation.errors.filter((e) => e.field !== 'category_id' && e.field !== 'subcategory_id'));
+    }
+
+    if (input.image_urls.length === 0) {
+      errors.push({ field: 'image_urls', message: 'At least one image URL is required' });
+    } else if (input.image_urls.length > MAX_IMAGES) {
+      errors.push({ field: 'image_urls', message: `At most ${MAX_IMAGES} images are allowed` });
+    }
+    const invalidUrl = input.image_urls.find((url) => !isHttpUrl(url));
+    if (invalidUrl) {
+      errors.push({ field: 'image_urls', message: `"${invalidUrl}" is not an http(s) URL` });
+    }
+
+    if (errors.length > 0 || !validation.valid || !category || !subcategory) {
+      return { errors, resolved: null };
+    }
+
+    return {
+      errors,
+      resolved: {
+        ...validation.data,
+        image_urls: input.image_urls,
+        category_name: category.category_name,
+        subcategory_name: subcategory.subcategory_name,
+      }
+    };
+  }
+
+  private static async createProduct(row: ResolvedRow): Promise<string> {
+    const productId = await ProductService.getNextProductId();
+
+    // Cloudinary downloads the URLs itself: requesting them from here would let an import reach
+    // addresses only our server can, such as internal services and cloud metadata endpoints
+    let uploadedImageUrls: string[];
+    try {
+      uploadedImageUrls = await CloudinaryService.uploadMultipleImages(
+        row.image_urls,
+        productId,
+        row.category_name,
+        row.subcategory_name,
+        1,
+        IMAGE_UPLOAD_TIMEOUT_MS
+      );
+    } catch {
+      throw new Error('One or more image URLs could not be downloaded as images');
+    }
+
+    try {
+      await ProductService.createProduct(
+        {
+          product_name: row.product_name,
+          product_title: row.product_title,
+          product_description: row.product_description,
+          category_id: row.category_id,
+          subcategory_id: row.subcategory_id,
+          images: []
+        },
+        uploadedImageUrls,
+        productId
+      );
+    } catch (error) {
+      await CloudinaryService.deleteImagesByUrl(uploadedImageUrls);
+      throw error;
+    }
+
+    return productId;
+  }
+}
+
+export default ProductImportService;
@@ -0,0 +1,62 @@
+// Sort and page-size options for the product list. The list page builds its URL from these
+// and the API whitelists against them, so keep this module usable in the browser.
+
+export const PRODUCT_SORT_FIELDS = ['name', 'created_at', 'updated_at', 'image_count', 'category'] as const;
+export type ProductSortField = typeof PRODUCT_SORT_FIELDS[number];
+
+export const SORT_ORDERS = ['asc', 'desc'] as const;
+export type SortOrder = typeof SORT_ORDERS[number];
+
+export interface ProductSort {
+  field: ProductSortField;
+  order: SortOrder;
+}
+
+export const PRODUCT_SORT_LABELS: Record<ProductSortField, string> = {
+  name: 'Name',
+  created_at: 'Date created',
+  updated_at: 'Last updated',
+  image_count: 'Image count',
+  category: 'Category',
+};
+
+// Clicking a column header starts with the order people usually want for it
+export const DEFAULT_SORT_ORDERS: Record<ProductSortField, SortOrder> = {
+  name: 'asc',
+  created_at: 'desc',
+  updated_at: 'desc',
+  image_count: 'desc',
+  category: 'asc',
+};
+
+export const PAGE_SIZES = [10, 25, 50, 100] as const;
+export const DEFAULT_PAGE_SIZE = 10;
+
+export function isProductSortField(value: string): value is ProductSortField {
+  return (PRODUCT_SORT_FIELDS as readonly string[]).includes(value);
+}
+
+export function isSortOrder(value: string): value is SortOrder {
+  return (SORT_ORDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Reads `sort` and `order` from a query string. No `sort` means the default order (newest
+ * first, or best match when searching); an unknown value is reported as an error.
+ */
+export function parseProductSort(params: URLSearchParams): { sort?: ProductSort; error?: string } {
+  const field = params.get('sort') || '';
+  const order = params.get('order') || '';
+
+  if (!field) {
+    return {};
+  }
+  if (!isProductSortField(field)) {
+    return { error: `sort must be one of: ${PRODUCT_SORT_FIELDS.join(', ')}` };
+  }
+  if (order && !isSortOrder(order)) {
+    return { error: `order must be one of: ${SORT_ORDERS.join(', ')}` };
+  }
+
+  return { sort: { field, order: isSortOrder(order) ? order : DEFAULT_SORT_ORDERS[field] } };
+}
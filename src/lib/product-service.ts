@@ -1,5 +1,11 @@
-import { getDatabase } from './mongodb';
-import { Product, Category, Subcategory, ProductFormData } from '@/types/product';
+import { AbstractCursor, ClientSession, Document, Filter, Sort } from 'mongodb';
+import { getDatabase, withTransaction } from './mongodb';
+import { getNextId } from './id-generator';
+import { escapeRegExp } from './utils';
+import { ProductSort, ProductSortField, SortOrder } from './product-list-options';
+import { CloudinaryService } from './cloudinary';
+import { RevisionService } from './revision-service';
+import { AdminProfile, Product, ProductRevision, ProductStatus, Category, Subcategory, ProductFormData } from '@/types/product';
 
 interface PaginatedResult {
   products: Product[];
@@ -9,33 +15,36 @@ interface PaginatedResult {
   totalPages: number;
 }
 
-interface ProductFilters {
+interface CursorPage {
+  products: Product[];
+  nextCursor: string | null;
+}
+
+// Where the previous page of a keyset (cursor) listing ended: the last sort value and _id
+interface KeysetPosition {
+  field: ProductSortField;
+  order: SortOrder;
+  value: string | number | Date;
+  id: string;
+}
+
+// Matches products that are not in the trash (deleted_at missing or null)
+const NOT_TRASHED = { deleted_at: null };
+
+// Cursor mode is newest first unless another sort is asked for; search relevance has no
+// stable value to resume from, so it is not available there
+const DEFAULT_CURSOR_SORT: ProductSort = { field: 'created_at', order: 'desc' };
+
+export interface ProductFilters {
   search?: string;
   category_id?: string;
   subcategory_id?: string;
+  status?: ProductStatus;
 }
 
 export class ProductService {
   static async getNextProductId(): Promise<string> {
-    const db = await getDatabase();
-    const products = db.collection('products');
-    
-    // Find the highest existing product ID
-    const pipeline = [
-      { $match: { "_id": { $regex: "^prod_" } } },
-      { $project: { "numeric_part": { $toInt: { $substr: ["$_id", 5, -1] } } } },
-      { $sort: { "numeric_part": -1 } },
-      { $limit: 1 }
-    ];
-    
-    const result = await products.aggregate(pipeline).toArray();
-    
-    let nextNum = 1;
-    if (result.length > 0) {
-      nextNum = result[0].numeric_part + 1;
-    }
-    
-    return `prod_${nextNum.toString().padStart(4, '0')}`;
+    return getNextId('products');
   }
 
   static async getAllCategories(): Promise<Category[]> {
@@ -61,51 +70,44 @@ export class ProductService {
   static async getAllProducts(): Promise<Product[]> {
     const db = await getDatabase();
     const products = await db.collection('products')
-      .find({})
+      .find(NOT_TRASHED)
       .sort({ created_at: -1 })
       .toArray();
     return products as unknown as Product[];
   }
 
+  static async getTrashedProducts(): Promise<Product[]> {
+    const db = await getDatabase();
+    const products = await db.collection('products')
+      .find({ deleted_at: { $ne: null } })
+      .sort({ deleted_at: -1 })
+      .toArray();
+    return products as unknown as Product[];
+  }
+
   static async getProductsPaginated(
     page: number = 1,
     limit: number = 10,
-    filters: ProductFilters = {}
+    filters: ProductFilters = {},
+    sort?: ProductSort
   ): Promise<PaginatedResult> {
     const db = await getDatabase();
     const collection = db.collection('products');
 
-    // Build query filter
-    const query: Record<string, unknown> = {};
-
-    if (filters.search) {
-      query.product_name = { $regex: filters.search, $options: 'i' };
-    }
-
-    if (filters.category_id && filters.category_id !== 'all') {
-      query.category_id = filters.category_id;
-    }
-
-    if (filters.subcategory_id && filters.subcategory_id !== 'all') {
-      query.subcategory_id = filters.subcategory_id;
-    }
+    const { query, sort: defaultSort } = await this.buildProductQuery(filters);
 
     // Get total count for pagination
     const total = await collection.countDocuments(query);
 
-    // Calculate skip
-    const skip = (page - 1) * limit;
-
     // Get paginated products
-    const products = await collection
-      .find(query)
-      .sort({ created_at: -1 })
-      .skip(skip)
-      .limit(limit)
-      .toArray();
+    const cursor = await this.findProducts(query, sort, defaultSort, {
+      skip: (page - 1) * limit,
+      limit
+    });
+    const products = await cursor.toArray();
 
     return {
-      products: products as unknown as Product[],
+      products,
       total,
       page,
       limit,
@@ -113,15 +115,161 @@ export class ProductService {
     };
   }
 
+  /**
+   * Keyset pagination: returns the `limit` products after `cursor` (null for the first page)
+   * plus the cursor for the next page, without counting or skipping over earlier pages.
+   */
+  static async getProductsByCursor(
+    limit: number,
+    filters: ProductFilters = {},
+    sort: ProductSort = DEFAULT_CURSOR_SORT,
+    cursor: KeysetPosition | null = null
+  ): Promise<CursorPage> {
+    const { query } = await this.buildProductQuery(filters);
+
+    // One extra row tells us whether there is another page
+    const found = await this.findProducts(query, sort, {}, { limit: limit + 1, after: cursor });
+    const results = await found.toArray() as Array<Product & { sort_key?: string }>;
+
+    const hasMore = results.length > limit;
+    const page = results.slice(0, limit);
+    const last = page[page.length - 1];
+
+    const nextCursor = hasMore && last
+      ? this.encodeCursor({
+          field: sort.field,
+          order: sort.order,
+          value: last.sort_key ?? (last[sort.field as keyof Product] as string | number | Date),
+          id: last._id,
+        })
+      : null;
+
+    return {
+      products: page.map(({ sort_key: _sortKey, ...product }) => product),
+      nextCursor
+    };
+  }
+
+  /** Reads a cursor from the API; null if it is malformed or was issued for a different sort */
+  static decodeCursor(cursor: string, sort: ProductSort = DEFAULT_CURSOR_SORT): KeysetPosition | null {
+    try {
+      const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (
+        position.field !== sort.field ||
+        position.order !== sort.order ||
+        typeof position.id !== 'string' ||
+        !['string', 'number'].includes(typeof position.value)
+      ) {
+        return null;
+      }
+
+      const value = position.field === 'created_at' || position.field === 'updated_at'
+        ? new Date(position.value)
+        : position.value;
+      if (value instanceof Date && isNaN(value.getTime())) {
+        return null;
+      }
+
+      return { field: position.field, order: position.order, value, id: position.id };
+    } catch {
+      return null;
+    }
+  }
+
+  private static encodeCursor(position: KeysetPosition): string {
+    const value = position.value instanceof Date ? position.value.toISOString() : position.value;
+    return Buffer.from(JSON.stringify({ ...position, value }), 'utf8').toString('base64url');
+  }
+
   static async getTotalProductCount(filters: ProductFilters = {}): Promise<number> {
     const db = await getDatabase();
     const collection = db.collection('products');
 
-    const query: Record<string, unknown> = {};
+    const { query } = await this.buildProductQuery(filters);
+
+    return await collection.countDocuments(query);
+  }
+
+  /** Cursor over every product matching the filters, in list order, for exports */
+  static async getProductsCursor(filters: ProductFilters = {}, sort?: ProductSort): Promise<AbstractCursor<Product>> {
+    const { query, sort: defaultSort } = await this.buildProductQuery(filters);
+    return this.findProducts(query, sort, defaultSort);
+  }
+
+  /**
+   * Runs a product query in the requested order. Name and category are compared
+   * case-insensitively, which needs an aggregation: category names live on the category
+   * documents, and a collation cannot be combined with a $text search.
+   *
+   * `paging.after` switches to keyset paging: only rows past that position are returned, and
+   * the computed `sort_key` is kept on aggregated rows so the caller can build the next cursor.
+   */
+  private static async findProducts(
+    query: Filter<Document>,
+    sort: ProductSort | undefined,
+    defaultSort: Sort,
+    paging?: { skip?: number; limit: number; after?: KeysetPosition | null }
+  ): Promise<AbstractCursor<Product>> {
+    const db = await getDatabase();
+    const collection = db.collection('products');
+    const direction = sort?.order === 'asc' ? 1 : -1;
+
+    if (sort?.field === 'name' || sort?.field === 'category') {
+      const pipeline: Document[] = [{ $match: query }];
+      if (sort.field === 'category') {
+        pipeline.push(
+          { $lookup: { from: 'categories', localField: 'category_id', foreignField: '_id', as: 'sort_category' } },
+          { $addFields: { sort_key: { $toLower: { $arrayElemAt: ['$sort_category.category_name', 0] } } } }
+        );
+      } else {
+        pipeline.push({ $addFields: { sort_key: { $toLower: '$product_name' } } });
+      }
+      if (paging?.after) {
+        pipeline.push({ $match: this.keysetCondition('sort_key', direction, paging.after) });
+      }
+      pipeline.push({ $sort: { sort_key: direction, _id: direction } });
+      if (paging?.skip) {
+        pipeline.push({ $skip: paging.skip });
+      }
+      if (paging) {
+        pipeline.push({ $limit: paging.limit });
+      }
+      pipeline.push({ $project: paging?.after === undefined ? { sort_key: 0, sort_category: 0 } : { sort_category: 0 } });
+
+      return collection.aggregate(pipeline) as unknown as AbstractCursor<Product>;
+    }
 
-    if (filters.search) {
-      query.product_name = { $regex: filters.search, $options: 'i' };
+    const cursor = collection
+      .find(paging?.after && sort ? this.withCondition(query, this.keysetCondition(sort.field, direction, paging.after)) : query)
+      .sort(sort ? { [sort.field]: direction, _id: direction } : defaultSort);
+    if (paging?.skip) {
+      cursor.skip(paging.skip);
     }
+    if (paging) {
+      cursor.limit(paging.limit);
+    }
+    return cursor as unknown as AbstractCursor<Product>;
+  }
+
+  // Rows strictly after `after` in (key, _id) order
+  private static keysetCondition(key: string, direction: 1 | -1, after: KeysetPosition): Filter<Document> {
+    const past = direction === 1 ? '$gt' : '$lt';
+    return {
+      $or: [
+        { [key]: { [past]: after.value } },
+        { [key]: after.value, _id: { [past]: after.id } }
+      ]
+    };
+  }
+
+  // ANDs an extra condition onto a query without overwriting an $or it already has
+  private static withCondition(query: Filter<Document>, condition: Filter<Document>): Filter<Document> {
+    const { $or, ...rest } = query;
+    return $or ? { ...rest, $and: [{ $or }, condition] } : { ...query, ...condition };
+  }
+
+  private static async buildProductQuery(filters: ProductFilters): Promise<{ query: Filter<Document>; sort: Sort }> {
+    const query: Filter<Document> = { ...NOT_TRASHED };
 
     if (filters.category_id && filters.category_id !== 'all') {
       query.category_id = filters.category_id;
@@ -131,12 +279,45 @@ export class ProductService {
       query.subcategory_id = filters.subcategory_id;
     }
 
-    return await collection.countDocuments(query);
+    if (filters.status) {
+      query.status = filters.status;
+    }
+
+    const search = filters.search?.trim();
+    if (!search) {
+      return { query, sort: { created_at: -1 } };
+    }
+
+    // Whole words go through the text index, best matches first
+    const textQuery = { ...query, $text: { $search: this.toTextSearch(search) } };
+    try {
+      const db = await getDatabase();
+      if (await db.collection('products').countDocuments(textQuery, { limit: 1 }) > 0) {
+        return { query: textQuery, sort: { score: { $meta: 'textScore' }, created_at: -1 } };
+      }
+    } catch (error) {
+      console.error('Text search failed, falling back to a regex search:', error);
+    }
+
+    // Partial words (search-as-you-type) and a missing index fall back to a literal substring match
+    const pattern = { $regex: escapeRegExp(search), $options: 'i' };
+    return {
+      query: { ...query, $or: [{ product_name: pattern }, { product_title: pattern }] },
+      sort: { created_at: -1 }
+    };
   }
 
-  static async createProduct(productData: ProductFormData, imageUrls: string[]): Promise<Product> {
+  // $text treats quotes as phrases and a leading "-" as negation; search box input is plain words
+  private static toTextSearch(search: string): string {
+    return search.replace(/["\\]/g, ' ').replace(/(^|\s)-+/g, '$1');
+  }
+
+  static async createProduct(
+    productData: ProductFormData,
+    imageUrls: string[],
+    productId: string
+  ): Promise<Product> {
     const db = await getDatabase();
-    const productId = await this.getNextProductId();
     
     const product: Omit<Product, '_id'> = {
       product_id: productId,
@@ -147,84 +328,316 @@ export class ProductService {
       image_count: imageUrls.length,
       subcategory_id: productData.subcategory_id,
       category_id: productData.category_id,
-      status: 'active',
+      status: productData.status || 'active',
       created_at: new Date(),
       updated_at: new Date()
     };
 
-    // Insert the product
-    await db.collection('products').insertOne({ _id: productId, ...product } as any);
-
-    // Update category product_ids array
-    await db.collection('categories').updateOne(
-      { _id: productData.category_id } as any,
-      {
-        $push: { product_ids: productId },
-        $inc: { product_count: 1 },
-        $set: { updated_at: new Date() }
-      } as any
-    );
-
-    // Update subcategory product_ids array
-    await db.collection('subcategories').updateOne(
-      { _id: productData.subcategory_id } as any,
-      {
-        $push: { product_ids: productId },
-        $inc: { product_count: 1 },
-        $set: { updated_at: new Date() }
-      } as any
-    );
+    await withTransaction(async (session) => {
+      // Insert the product
+      await db.collection('products').insertOne({ _id: productId, ...product } as any, { session });
+
+      // Update category product_ids array
+      await db.collection('categories').updateOne(
+        { _id: productData.category_id } as any,
+        {
+          $push: { product_ids: productId },
+          $inc: { product_count: 1 },
+          $set: { updated_at: new Date() }
+        } as any,
+        { session }
+      );
+
+      // Update subcategory product_ids array
+      await db.collection('subcategories').updateOne(
+        { _id: productData.subcategory_id } as any,
+        {
+          $push: { product_ids: productId },
+          $inc: { product_count: 1 },
+          $set: { updated_at: new Date() }
+        } as any,
+        { session }
+      );
+    });
 
     return { _id: productId, ...product } as Product;
   }
 
   static async getProductById(productId: string): Promise<Product | null> {
     const db = await getDatabase();
-    const product = await db.collection('products').findOne({ _id: productId } as any);
+    const product = await db.collection('products').findOne({ _id: productId, ...NOT_TRASHED } as any);
     return product as unknown as Product | null;
   }
 
-  static async updateProduct(productId: string, updateData: Partial<Product>): Promise<void> {
+  static async getTrashedProductById(productId: string): Promise<Product | null> {
     const db = await getDatabase();
-    await db.collection('products').updateOne(
-      { _id: productId } as any,
-      { 
-        $set: { 
-          ...updateData, 
-          updated_at: new Date() 
-        } 
-      } as any
+    const product = await db.collection('products').findOne(
+      { _id: productId, deleted_at: { $ne: null } } as any
     );
+    return product as unknown as Product | null;
   }
 
-  static async deleteProduct(productId: string): Promise<void> {
+  static async updateProduct(
+    productId: string,
+    updateData: Partial<Product>,
+    changedBy: AdminProfile
+  ): Promise<ProductRevision | null> {
     const db = await getDatabase();
-    
-    // Get product details first
-    const product = await this.getProductById(productId);
-    if (!product) return;
 
-    // Remove from product collection
-    await db.collection('products').deleteOne({ _id: productId } as any);
+    return withTransaction(async (session) => {
+      const existing = await db.collection('products').findOne(
+        { _id: productId } as any,
+        { session }
+      ) as unknown as Product | null;
+      if (!existing) return null;
+
+      const changes: Partial<Product> = { ...updateData };
+      if (changes.image_urls) {
+        changes.image_count = changes.image_urls.length;
+      }
+
+      await db.collection('products').updateOne(
+        { _id: productId } as any,
+        { 
+          $set: { 
+            ...changes, 
+            updated_at: new Date() 
+          } 
+        } as any,
+        { session }
+      );
+
+      const revision = await RevisionService.recordRevision(existing, { ...existing, ...changes }, changedBy, session);
+
+      // Keep the denormalized product_ids/product_count in step with a taxonomy move
+      if (updateData.category_id && updateData.category_id !== existing.category_id) {
+        await this.moveProductReference(
+          'categories', productId, existing.category_id, updateData.category_id, session
+        );
+      }
+
+      if (updateData.subcategory_id && updateData.subcategory_id !== existing.subcategory_id) {
+        await this.moveProductReference(
+          'subcategories', productId, existing.subcategory_id, updateData.subcategory_id, session
+        );
+      }
+
+      return revision;
+    });
+  }
 
-    // Remove from category product_ids array
-    await db.collection('categories').updateOne(
-      { _id: product.category_id } as any,
-      {
-        $pull: { product_ids: productId },
-        $inc: { product_count: -1 },
-        $set: { updated_at: new Date() }
-      } as any
-    );
+  private static async moveProductReference(
+    collectionName: 'categories' | 'subcategories',
+    productId: string,
+    fromId: string,
+    toId: string,
+    session: ClientSession
+  ): Promise<void> {
+    await this.updateProductReferences(collectionName, fromId, [productId], 'remove', session);
+    await this.updateProductReferences(collectionName, toId, [productId], 'add', session);
+  }
+
+  /**
+   * Moves a product to the trash. It drops out of its category/subcategory counters but keeps
+   * its images, so it can be restored until it is purged. Returns false, changing nothing, when
+   * the product was already trashed (by a concurrent request, say).
+   */
+  static async trashProduct(product: Product): Promise<boolean> {
+    const db = await getDatabase();
+
+    return withTransaction(async (session) => {
+      const result = await db.collection('products').updateOne(
+        { _id: product._id, ...NOT_TRASHED } as any,
+        { $set: { deleted_at: new Date(), updated_at: new Date() } },
+        { session }
+      );
+      if (result.modifiedCount === 0) return false;
+
+      await this.updateProductReferences('categories', product.category_id, [product._id], 'remove', session);
+      await this.updateProductReferences('subcategories', product.subcategory_id, [product._id], 'remove', session);
+      return true;
+    });
+  }
+
+  /** Takes a product out of the trash; returns false, changing nothing, when it was not in it */
+  static async restoreProduct(product: Product): Promise<boolean> {
+    const db = await getDatabase();
+
+    return withTransaction(async (session) => {
+      const result = await db.collection('products').updateOne(
+        { _id: product._id, deleted_at: { $ne: null } } as any,
+        { $set: { deleted_at: null, updated_at: new Date() } },
+        { session }
+      );
+      if (result.modifiedCount === 0) return false;
+
+      await this.updateProductReferences('categories', product.category_id, [product._id], 'add', session);
+      await this.updateProductReferences('subcategories', product.subcategory_id, [product._id], 'add', session);
+      return true;
+    });
+  }
+
+  static async getProductsByIds(productIds: string[]): Promise<Product[]> {
+    const db = await getDatabase();
+    const products = await db.collection('products')
+      .find({ _id: { $in: productIds }, ...NOT_TRASHED } as any)
+      .toArray();
+    return products as unknown as Product[];
+  }
+
+  /**
+   * Moves several products to the trash in one transaction and returns the ones it trashed;
+   * products already in the trash by then are left out, so their counters are not touched twice
+   */
+  static async trashProducts(products: Product[]): Promise<Product[]> {
+    const db = await getDatabase();
+
+    return withTransaction(async (session) => {
+      const filter = { _id: { $in: products.map((p) => p._id) }, ...NOT_TRASHED } as any;
+      // Read inside the transaction: a concurrent trash of the same products is a write conflict,
+      // which retries this callback against the new state
+      const live = await db.collection('products')
+        .find(filter, { session, projection: { _id: 1 } })
+        .toArray();
+      const liveIds = new Set(live.map((p) => String(p._id)));
+      const trashed = products.filter((p) => liveIds.has(p._id));
+      if (trashed.length === 0) return [];
+
+      await db.collection('products').updateMany(
+        filter,
+        { $set: { deleted_at: new Date(), updated_at: new Date() } },
+        { session }
+      );
+
+      await this.updateGroupedProductReferences('categories', trashed, 'category_id', 'remove', session);
+      await this.updateGroupedProductReferences('subcategories', trashed, 'subcategory_id', 'remove', session);
+      return trashed;
+    });
+  }
+
+  /**
+   * Sets the same status and/or category/subcategory on several products in one transaction,
+   * recording a revision for each product that actually changed. Returns those revisions.
+   */
+  static async updateProducts(
+    products: Product[],
+    updateData: Partial<Pick<Product, 'status' | 'category_id' | 'subcategory_id'>>,
+    changedBy: AdminProfile
+  ): Promise<ProductRevision[]> {
+    const db = await getDatabase();
+
+    return withTransaction(async (session) => {
+      await db.collection('products').updateMany(
+        { _id: { $in: products.map((p) => p._id) } } as any,
+        { $set: { ...updateData, updated_at: new Date() } },
+        { session }
+      );
+
+      const revisions: ProductRevision[] = [];
+      for (const product of products) {
+        const revision = await RevisionService.recordRevision(
+          product, { ...product, ...updateData }, changedBy, session
+        );
+        if (revision) revisions.push(revision);
+      }
+
+      // Keep the denormalized product_ids/product_count in step, as for a single update
+      const { category_id: categoryId, subcategory_id: subcategoryId } = updateData;
+      if (categoryId) {
+        const moved = products.filter((p) => p.category_id !== categoryId);
+        if (moved.length > 0) {
+          await this.updateGroupedProductReferences('categories', moved, 'category_id', 'remove', session);
+          await this.updateProductReferences('categories', categoryId, moved.map((p) => p._id), 'add', session);
+        }
+      }
+
+      if (subcategoryId) {
+        const moved = products.filter((p) => p.subcategory_id !== subcategoryId);
+        if (moved.length > 0) {
+          await this.updateGroupedProductReferences('subcategories', moved, 'subcategory_id', 'remove', session);
+          await this.updateProductReferences('subcategories', subcategoryId, moved.map((p) => p._id), 'add', session);
+        }
+      }
+
+      return revisions;
+    });
+  }
+
+  /**
+   * Permanently removes a trashed product and its Cloudinary images. Returns the image URLs
+   * that could not be deleted, or null when the product was no longer in the trash (restored or
+   * purged since it was read), in which case its history and images are left alone.
+   */
+  static async purgeProduct(product: Product): Promise<string[] | null> {
+    const db = await getDatabase();
+
+    // Counters were already updated when the product was trashed
+    const result = await db.collection('products').deleteOne({ _id: product._id, deleted_at: { $ne: null } } as any);
+    if (result.deletedCount !== 1) return null;
+
+    await RevisionService.deleteRevisions(product._id);
+
+    return CloudinaryService.deleteImagesByUrl(product.image_urls);
+  }
+
+  /** Purges every product that has been in the trash for longer than `retentionDays` */
+  static async purgeExpiredProducts(retentionDays: number): Promise<{ purged: string[]; failed: string[] }> {
+    const db = await getDatabase();
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+    const expired = await db.collection('products')
+      .find({ deleted_at: { $ne: null, $lte: cutoff } })
+      .toArray() as unknown as Product[];
+
+    const result = { purged: [] as string[], failed: [] as string[] };
+    for (const product of expired) {
+      const failed = await this.purgeProduct(product);
+      if (!failed) continue;
+
+      result.purged.push(product._id);
+      result.failed.push(...failed);
+    }
+
+    return result;
+  }
+
+  private static async updateProductReferences(
+    collectionName: 'categories' | 'subcategories',
+    parentId: string,
+    productIds: string[],
+    action: 'add' | 'remove',
+    session: ClientSession
+  ): Promise<void> {
+    const db = await getDatabase();
 
-    // Remove from subcategory product_ids array
-    await db.collection('subcategories').updateOne(
-      { _id: product.subcategory_id } as any,
+    await db.collection(collectionName).updateOne(
+      { _id: parentId } as any,
       {
-        $pull: { product_ids: productId },
-        $inc: { product_count: -1 },
+        ...(action === 'add'
+          ? { $push: { product_ids: { $each: productIds } } }
+          : { $pullAll: { product_ids: productIds } }),
+        $inc: { product_count: action === 'add' ? productIds.length : -productIds.length },
         $set: { updated_at: new Date() }
-      } as any
+      } as any,
+      { session }
     );
   }
+
+  // Applies one reference update per parent for a set of products
+  private static async updateGroupedProductReferences(
+    collectionName: 'categories' | 'subcategories',
+    products: Product[],
+    parentField: 'category_id' | 'subcategory_id',
+    action: 'add' | 'remove',
+    session: ClientSession
+  ): Promise<void> {
+    const groups = new Map<string, string[]>();
+    for (const product of products) {
+      groups.set(product[parentField], [...(groups.get(product[parentField]) || []), product._id]);
+    }
+
+    for (const [parentId, productIds] of Array.from(groups.entries())) {
+      await this.updateProductReferences(collectionName, parentId, productIds, action, session);
+    }
+  }
 }
@@ -0,0 +1,41 @@
+import { ProductStatus } from '@/types/product';
+
+// The product pages use these too, so nothing server-only may be imported here
+export const PRODUCT_STATUSES: readonly ProductStatus[] = ['draft', 'active', 'inactive', 'archived'];
+
+// A new product is either published straight away or saved as a draft to finish later
+export const INITIAL_PRODUCT_STATUSES: readonly ProductStatus[] = ['draft', 'active'];
+
+export const PRODUCT_STATUS_LABELS: Record<ProductStatus, string> = {
+  draft: 'Draft',
+  active: 'Active',
+  inactive: 'Inactive',
+  archived: 'Archived',
+};
+
+/**
+ * Statuses a product may move to from each status. Once published a product never returns to
+ * draft, and an archived product has to be reactivated through inactive.
+ */
+export const PRODUCT_STATUS_TRANSITIONS: Record<ProductStatus, readonly ProductStatus[]> = {
+  draft: ['active', 'archived'],
+  active: ['inactive', 'archived'],
+  inactive: ['active', 'archived'],
+  archived: ['inactive'],
+};
+
+export function isProductStatus(value: string): value is ProductStatus {
+  return (PRODUCT_STATUSES as readonly string[]).includes(value);
+}
+
+// A product whose stored status is missing or unknown cannot change status until it is repaired
+export function canTransitionStatus(from: ProductStatus, to: ProductStatus): boolean {
+  if (!isProductStatus(from) || !isProductStatus(to)) {
+    return false;
+  }
+  return from === to || PRODUCT_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function statusTransitionError(from: ProductStatus, to: ProductStatus): string {
+  return `Status cannot change from ${PRODUCT_STATUS_LABELS[from] || from || 'no status'} to ${PRODUCT_STATUS_LABELS[to] || to}`;
+}
@@ -0,0 +1,278 @@
+import { ClientSession, Document } from 'mongodb';
+import { getDatabase, withTransaction } from './mongodb';
+import { Discrepancy, ReconcileReport } from '@/types/product';
+
+type ParentType = 'category' | 'subcategory';
+
+interface ProductRef {
+  _id: string;
+  category_id: string;
+  subcategory_id: string;
+  deleted_at?: Date | null;
+}
+
+// A category/subcategory whose denormalized fields were (or would be) rewritten
+export interface CounterRepair {
+  target_type: ParentType;
+  target_id: string;
+  before: Record<string, number>;
+  after: Record<string, number>;
+}
+
+interface PendingRepair extends CounterRepair {
+  set: Record<string, unknown>;
+}
+
+// The corrected id list and counter for one `<child>_ids`/`<child>_count` pair
+interface ListFix {
+  child: 'product' | 'subcategory';
+  ids: string[];
+  count: number;
+  storedCount: number;
+}
+
+const COLLECTIONS: Record<ParentType, 'categories' | 'subcategories'> = {
+  category: 'categories',
+  subcategory: 'subcategories',
+};
+
+const LABELS: Record<ParentType, string> = {
+  category: 'Category',
+  subcategory: 'Subcategory',
+};
+
+export class ReconcileService {
+  /**
+   * Recomputes the denormalized category/subcategory fields (`product_ids`, `product_count`,
+   * `subcategory_ids`, `subcategory_count`) from the products and subcategories that reference
+   * them, and reports every difference. With `repair`, the fixable ones are rewritten inside the
+   * same transaction as the check, so concurrent product writes cannot slip in between.
+   */
+  static async reconcile(repair = false): Promise<{ report: ReconcileReport; repairs: CounterRepair[] }> {
+    if (!repair) {
+      const { report } = await this.inspect();
+      return { report, repairs: [] };
+    }
+
+    return withTransaction(async (session) => {
+      const { report, repairs } = await this.inspect(session);
+      const db = await getDatabase();
+
+      for (const { target_type, target_id, set } of repairs) {
+        await db.collection(COLLECTIONS[target_type]).updateOne(
+          { _id: target_id } as any,
+          { $set: { ...set, updated_at: new Date() } },
+          { session }
+        );
+      }
+
+      return {
+        report: { ...report, repaired: repairs.length },
+        repairs: repairs.map(({ set: _set, ...counters }) => counters)
+      };
+    });
+  }
+
+  private static async inspect(session?: ClientSession): Promise<{ report: ReconcileReport; repairs: PendingRepair[] }> {
+    const db = await getDatabase();
+
+    // Sequential on purpose: operations sharing a transaction session must not run in parallel
+    const products = await db.collection('products')
+      .find({}, { projection: { category_id: 1, subcategory_id: 1, deleted_at: 1 }, session })
+      .toArray() as unknown as ProductRef[];
+    const categories = await db.collection('categories').find({}, { session }).toArray();
+    const subcategories = await db.collection('subcategories').find({}, { session }).toArray();
+
+    const productsById = new Map(products.map((product) => [product._id, product]));
+    const categoriesById = new Map(categories.map((category) => [category._id as unknown as string, category]));
+    const subcategoriesById = new Map(subcategories.map((subcategory) => [subcategory._id as unknown as string, subcategory]));
+
+    const discrepancies: Discrepancy[] = [];
+    const repairs: PendingRepair[] = [];
+
+    // What the parents should hold: live products and existing subcategories that point at them
+    const categoryProducts = new Map<string, string[]>();
+    const subcategoryProducts = new Map<string, string[]>();
+    const categorySubcategories = new Map<string, string[]>();
+    const append = (map: Map<string, string[]>, key: string, id: string) => {
+      const ids = map.get(key);
+      if (ids) {
+        ids.push(id);
+      } else {
+        map.set(key, [id]);
+      }
+    };
+
+    for (const product of products) {
+      const inTrash = product.deleted_at ? ' (in the trash)' : '';
+      const category = categoriesById.get(product.category_id);
+      const subcategory = subcategoriesById.get(product.subcategory_id);
+
+      if (!category) {
+        discrepancies.push({
+          kind: 'missing_parent',
+          target_type: 'product',
+          target_id: product._id,
+          message: `Product ${product._id}${inTrash} points at category ${product.category_id || '(none)'}, which does not exist`,
+          fixable: false
+        });
+      }
+      if (!subcategory) {
+        discrepancies.push({
+          kind: 'missing_parent',
+          target_type: 'product',
+          target_id: product._id,
+          message: `Product ${product._id}${inTrash} points at subcategory ${product.subcategory_id || '(none)'}, which does not exist`,
+          fixable: false
+        });
+      } else if (category && subcategory.category_id !== product.category_id) {
+        discrepancies.push({
+          kind: 'parent_mismatch',
+          target_type: 'product',
+          target_id: product._id,
+          message: `Product ${product._id}${inTrash} is in category ${product.category_id}, but its subcategory ${product.subcategory_id} belongs to ${subcategory.category_id}`,
+          fixable: false
+        });
+      }
+
+      if (!product.deleted_at) {
+        append(categoryProducts, product.category_id, product._id);
+        append(subcategoryProducts, product.subcategory_id, product._id);
+      }
+    }
+
+    for (const subcategory of subcategories) {
+      const subcategoryId = subcategory._id as unknown as string;
+      if (!categoriesById.has(subcategory.category_id)) {
+        discrepancies.push({
+          kind: 'missing_parent',
+          target_type: 'subcategory',
+          target_id: subcategoryId,
+          message: `Subcategory "${subcategory.subcategory_name}" points at category ${subcategory.category_id}, which does not exist`,
+          fixable: false
+        });
+      }
+      append(categorySubcategories, subcategory.category_id, subcategoryId);
+    }
+
+    const describeProduct = (parentField: 'category_id' | 'subcategory_id') => (id: string) => {
+      const product = productsById.get(id);
+      if (!product) return 'which does not exist';
+      if (product.deleted_at) return 'which is in the trash';
+      return `which belongs to ${product[parentField]}`;
+    };
+    const describeSubcategory = (id: string) => {
+      const subcategory = subcategoriesById.get(id);
+      return subcategory ? `which belongs to ${subcategory.category_id}` : 'which does not exist';
+    };
+
+    for (const category of categories) {
+      const categoryId = category._id as unknown as string;
+      const fixes = [
+        this.checkList(discrepancies, 'category', category, category.category_name, 'product',
+          categoryProducts.get(categoryId) || [], describeProduct('category_id')),
+        this.checkList(discrepancies, 'category', category, category.category_name, 'subcategory',
+          categorySubcategories.get(categoryId) || [], describeSubcategory),
+      ];
+      this.addRepair(repairs, 'category', categoryId, fixes);
+    }
+
+    for (const subcategory of subcategories) {
+      const subcategoryId = subcategory._id as unknown as string;
+      const fixes = [
+        this.checkList(discrepancies, 'subcategory', subcategory, subcategory.subcategory_name, 'product',
+          subcategoryProducts.get(subcategoryId) || [], describeProduct('subcategory_id')),
+      ];
+      this.addRepair(repairs, 'subcategory', subcategoryId, fixes);
+    }
+
+    return {
+      report: {
+        checked: { products: products.length, categories: categories.length, subcategories: subcategories.length },
+        discrepancies,
+        repaired: 0,
+        checked_at: new Date()
+      },
+      repairs
+    };
+  }
+
+  /**
+   * Compares one id list and its counter (`product_ids`/`product_count` or
+   * `subcategory_ids`/`subcategory_count`) with what was expected, recording a discrepancy for
+   * each difference. Returns the corrected fields, or null when both already match.
+   */
+  private static checkList(
+    discrepancies: Discrepancy[],
+    parentType: ParentType,
+    parent: Document,
+    name: string,
+    childType: 'product' | 'subcategory',
+    expected: string[],
+    describeDangling: (id: string) => string
+  ): ListFix | null {
+    const idsField = `${childType}_ids`;
+    const countField = `${childType}_count`;
+    const stored: string[] = Array.isArray(parent[idsField]) ? parent[idsField] : [];
+    const storedCount: number = typeof parent[countField] === 'number' ? parent[countField] : 0;
+    const target = { target_type: parentType, target_id: parent._id as string, fixable: true };
+    const label = `${LABELS[parentType]} "${name}"`;
+
+    const expectedSet = new Set(expected);
+    const seen = new Set<string>();
+    const kept: string[] = [];
+    let changed = false;
+
+    for (const id of stored) {
+      if (seen.has(id)) {
+        discrepancies.push({ ...target, kind: 'dangling_id', message: `${label} lists ${childType} ${id} more than once` });
+        changed = true;
+      } else if (!expectedSet.has(id)) {
+        discrepancies.push({ ...target, kind: 'dangling_id', message: `${label} lists ${childType} ${id}, ${describeDangling(id)}` });
+        changed = true;
+      } else {
+        kept.push(id);
+      }
+      seen.add(id);
+    }
+
+    // Keep the stored order and append what was missing, so a repair changes as little as possible
+    const missing = expected.filter((id) => !seen.has(id));
+    for (const id of missing) {
+      discrepancies.push({ ...target, kind: 'missing_id', message: `${label} does not list ${childType} ${id}, which references it` });
+      changed = true;
+    }
+
+    if (storedCount !== expected.length) {
+      discrepancies.push({
+        ...target,
+        kind: 'wrong_count',
+        message: `${label} has ${countField} ${storedCount}, but ${expected.length} ${childType}(s) reference it`
+      });
+      changed = true;
+    }
+
+    return changed ? { child: childType, ids: [...kept, ...missing], count: expected.length, storedCount } : null;
+  }
+
+  private static addRepair(
+    repairs: PendingRepair[],
+    targetType: ParentType,
+    targetId: string,
+    fixes: (ListFix | null)[]
+  ): void {
+    const changed = fixes.filter((fix): fix is ListFix => fix !== null);
+    if (changed.length === 0) return;
+
+    const repair: PendingRepair = { target_type: targetType, target_id: targetId, before: {}, after: {}, set: {} };
+    for (const { child, ids, count, storedCount } of changed) {
+      repair.before[`${child}_count`] = storedCount;
+      repair.after[`${child}_count`] = count;
+      repair.set[`${child}_ids`] = ids;
+      repair.set[`${child}_count`] = count;
+    }
+    repairs.push(repair);
+  }
+}
+
+export default ReconcileService;
@@ -0,0 +1,115 @@
+import { ClientSession } from 'mongodb';
+import { getDatabase } from './mongodb';
+import { AdminProfile, Product, ProductRevision, ProductSnapshot } from '@/types/product';
+
+export const REVISION_FIELDS: (keyof ProductSnapshot)[] = [
+  'product_name',
+  'product_title',
+  'product_description',
+  'category_id',
+  'subcategory_id',
+  'status',
+  'image_urls',
+];
+
+export class RevisionService {
+  static toSnapshot(product: Product): ProductSnapshot {
+    return {
+      product_name: product.product_name,
+      product_title: product.product_title,
+      product_description: product.product_description,
+      category_id: product.category_id,
+      subcategory_id: product.subcategory_id,
+      status: product.status,
+      image_urls: product.image_urls,
+    };
+  }
+
+  static diff(before: ProductSnapshot, after: ProductSnapshot): ProductRevision['changes'] {
+    const changes: ProductRevision['changes'] = {};
+    for (const field of REVISION_FIELDS) {
+      if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+        changes[field] = { from: before[field], to: after[field] };
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Records the state a product was left in by an update, along with what changed. Runs inside
+   * the update's transaction; nothing is written when the update changed no tracked field. The
+   * first recorded update also writes revision 0, the product as it was before, so that the
+   * original state can be restored too.
+   */
+  static async recordRevision(
+    before: Product,
+    after: Product,
+    changedBy: AdminProfile,
+    session: ClientSession
+  ): Promise<ProductRevision | null> {
+    const db = await getDatabase();
+    const snapshot = this.toSnapshot(after);
+    const changes = this.diff(this.toSnapshot(before), snapshot);
+
+    if (Object.keys(changes).length === 0) {
+      return null;
+    }
+
+    const latest = await db.collection('product_revisions').findOne(
+      { product_id: before._id },
+      { sort: { revision: -1 }, projection: { revision: 1 }, session }
+    );
+    const revisionNumber = (latest?.revision ?? 0) + 1;
+    const changedByRef = { admin_id: changedBy._id, username: changedBy.username };
+
+    if (!latest) {
+      // Who created the product is not tracked, so the original is attributed to the first editor
+      const original: ProductRevision = {
+        _id: `${before._id}:0`,
+        product_id: before._id,
+        revision: 0,
+        changed_by: changedByRef,
+        changed_at: before.created_at,
+        changes: {},
+        snapshot: this.toSnapshot(before),
+      };
+      await db.collection('product_revisions').insertOne(original as any, { session });
+    }
+
+    // The id doubles as a uniqueness guard if two edits race for the same number
+    const revision: ProductRevision = {
+      _id: `${before._id}:${revisionNumber}`,
+      product_id: before._id,
+      revision: revisionNumber,
+      changed_by: changedByRef,
+      changed_at: new Date(),
+      changes,
+      snapshot,
+    };
+
+    await db.collection('product_revisions').insertOne(revision as any, { session });
+    return revision;
+  }
+
+  static async getRevisions(productId: string): Promise<ProductRevision[]> {
+    const db = await getDatabase();
+    const revisions = await db.collection('product_revisions')
+      .find({ product_id: productId })
+      .sort({ revision: -1 })
+      .toArray();
+    return revisions as unknown as ProductRevision[];
+  }
+
+  static async getRevision(productId: string, revision: number): Promise<ProductRevision | null> {
+    const db = await getDatabase();
+    const result = await db.collection('product_revisions').findOne({ product_id: productId, revision });
+    return result as unknown as ProductRevision | null;
+  }
+
+  static async deleteRevisions(productId: string): Promise<void> {
+    const db = await getDatabase();
+    await db.collection('product_revisions').deleteMany({ product_id: productId });
+  }
+}
+
+export default RevisionService;
@@ -0,0 +1,113 @@
+import { getDatabase } from './mongodb';
+import { PRODUCT_STATUSES } from './product-status';
+import { CatalogueStats, Category, ProductStatus, ProductSummary, Subcategory } from '@/types/product';
+
+const RECENT_LIMIT = 5;
+const SINGLE_IMAGE_LIMIT = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SUMMARY_FIELDS = {
+  product_name: 1,
+  category_id: 1,
+  status: 1,
+  image_urls: 1,
+  created_at: 1,
+  updated_at: 1
+};
+
+export class StatsService {
+  /**
+   * Catalogue figures for the dashboard, from one aggregation over the products that are not in
+   * the trash. `days` is how far back the products-created-per-day series goes.
+   */
+  static async getCatalogueStats(days: number = 30): Promise<CatalogueStats> {
+    const db = await getDatabase();
+
+    // Today counts as one of the days, starting from midnight UTC so each bucket is a whole day
+    const since = new Date(Date.now() - (days - 1) * DAY_MS);
+    since.setUTCHours(0, 0, 0, 0);
+
+    const [[facets], categories, subcategories] = await Promise.all([
+      db.collection('products').aggregate([
+        // The category counters leave trashed products out, so the cross-check must too
+        { $match: { deleted_at: null } },
+        {
+          $facet: {
+            total: [{ $count: 'count' }],
+            by_status: [{ $group: { _id: '$status', count: { $sum: 1 } } }],
+            by_category: [{ $group: { _id: '$category_id', count: { $sum: 1 } } }],
+            by_subcategory: [{ $group: { _id: '$subcategory_id', count: { $sum: 1 } } }],
+            recently_created: [
+              { $sort: { created_at: -1, _id: -1 } },
+              { $limit: RECENT_LIMIT },
+              { $project: SUMMARY_FIELDS }
+            ],
+            recently_updated: [
+              { $sort: { updated_at: -1, _id: -1 } },
+              { $limit: RECENT_LIMIT },
+              { $project: SUMMARY_FIELDS }
+            ],
+            single_image_total: [{ $match: { image_urls: { $size: 1 } } }, { $count: 'count' }],
+            single_image: [
+              { $match: { image_urls: { $size: 1 } } },
+              { $sort: { updated_at: -1, _id: -1 } },
+              { $limit: SINGLE_IMAGE_LIMIT },
+              { $project: SUMMARY_FIELDS }
+            ],
+            created_per_day: [
+              { $match: { created_at: { $gte: since } } },
+              { $group: { _id: { $dateToString: { format: '%Y-%m-%d', date: '$created_at' } }, count: { $sum: 1 } } }
+            ]
+          }
+        }
+      ]).toArray(),
+      db.collection('categories').find({}).sort({ category_name: 1 }).toArray(),
+      db.collection('subcategories').find({}).sort({ subcategory_name: 1 }).toArray()
+    ]);
+
+    const toCounts = (groups: { _id: string | null; count: number }[]) =>
+      new Map(groups.map((group) => [group._id, group.count]));
+
+    const byStatus = Object.fromEntries(PRODUCT_STATUSES.map((status) => [status, 0])) as Record<ProductStatus, number>;
+    for (const group of facets.by_status as { _id: string | null; count: number }[]) {
+      if (group._id && group._id in byStatus) {
+        byStatus[group._id as ProductStatus] = group.count;
+      }
+    }
+
+    const categoryCounts = toCounts(facets.by_category);
+    const subcategoryCounts = toCounts(facets.by_subcategory);
+    const perDay = toCounts(facets.created_per_day);
+
+    return {
+      total: facets.total[0]?.count ?? 0,
+      by_status: byStatus,
+      categories: (categories as unknown as Category[]).map((category) => ({
+        _id: category._id,
+        name: category.category_name,
+        product_count: category.product_count ?? 0,
+        actual_count: categoryCounts.get(category._id) ?? 0,
+        subcategories: (subcategories as unknown as Subcategory[])
+          .filter((subcategory) => subcategory.category_id === category._id)
+          .map((subcategory) => ({
+            _id: subcategory._id,
+            name: subcategory.subcategory_name,
+            product_count: subcategory.product_count ?? 0,
+            actual_count: subcategoryCounts.get(subcategory._id) ?? 0
+          }))
+      })),
+      recently_created: facets.recently_created as ProductSummary[],
+      recently_updated: facets.recently_updated as ProductSummary[],
+      single_image: {
+        total: facets.single_image_total[0]?.count ?? 0,
+        products: facets.single_image as ProductSummary[]
+      },
+      created_per_day: Array.from({ length: days }, (_, index) => {
+        const date = new Date(since.getTime() + index * DAY_MS).toISOString().slice(0, 10);
+        return { date, count: perDay.get(date) ?? 0 };
+      })
+    };
+  }
+}
+
+export default StatsService;
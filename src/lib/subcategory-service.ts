@@ -0,0 +1,147 @@
+import { getDatabase, withTransaction } from './mongodb';
+import { CategoryService, ImageMoveResult } from './category-service';
+import { getNextId } from './id-generator';
+import { Category, Product, Subcategory } from '@/types/product';
+
+export class SubcategoryService {
+  static async getSubcategoryById(subcategoryId: string): Promise<Subcategory | null> {
+    const db = await getDatabase();
+    const subcategory = await db.collection('subcategories').findOne({ _id: subcategoryId } as any);
+    return subcategory as unknown as Subcategory | null;
+  }
+
+  static async getSubcategoryByName(categoryId: string, subcategoryName: string): Promise<Subcategory | null> {
+    const db = await getDatabase();
+    const subcategory = await db.collection('subcategories').findOne(
+      { category_id: categoryId, subcategory_name: subcategoryName },
+      { collation: { locale: 'en', strength: 2 } }
+    );
+    return subcategory as unknown as Subcategory | null;
+  }
+
+  static async createSubcategory(categoryId: string, subcategoryName: string): Promise<Subcategory> {
+    const db = await getDatabase();
+    const subcategoryId = await getNextId('subcategories');
+
+    const subcategory: Subcategory = {
+      _id: subcategoryId,
+      subcategory_name: subcategoryName,
+      category_id: categoryId,
+      product_ids: [],
+      product_count: 0,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+
+    await withTransaction(async (session) => {
+      await db.collection('subcategories').insertOne(subcategory as any, { session });
+
+      await db.collection('categories').updateOne(
+        { _id: categoryId } as any,
+        {
+          $push: { subcategory_ids: subcategoryId },
+          $inc: { subcategory_count: 1 },
+          $set: { updated_at: new Date() }
+        } as any,
+        { session }
+      );
+    });
+
+    return subcategory;
+  }
+
+  static async renameSubcategory(subcategoryId: string, subcategoryName: string): Promise<ImageMoveResult> {
+    const db = await getDatabase();
+
+    await db.collection('subcategories').updateOne(
+      { _id: subcategoryId } as any,
+      { $set: { subcategory_name: subcategoryName, updated_at: new Date() } }
+    );
+
+    const products = await db.collection('products')
+      .find({ subcategory_id: subcategoryId })
+      .toArray() as unknown as Product[];
+
+    return CategoryService.moveProductImages(products, 1, subcategoryName);
+  }
+
+  static async moveSubcategory(subcategory: Subcategory, targetCategory: Category): Promise<ImageMoveResult> {
+    const db = await getDatabase();
+    const sourceCategoryId = subcategory.category_id;
+
+    const products = await withTransaction(async (session) => {
+      const subcategoryProducts = await db.collection('products')
+        .find({ subcategory_id: subcategory._id }, { session })
+        .toArray() as unknown as Product[];
+      // Trashed products are already off the category's counters; they still move (and their
+      // images with them), but only live ones are taken off one category and put on the other
+      const productIds = subcategoryProducts
+        .filter((product) => !product.deleted_at)
+        .map((product) => product._id);
+
+      await db.collection('subcategories').updateOne(
+        { _id: subcategory._id } as any,
+        { $set: { category_id: targetCategory._id, updated_at: new Date() } },
+        { session }
+      );
+
+      // Take the subcategory and its products off the old category...
+      await db.collection('categories').updateOne(
+        { _id: sourceCategoryId } as any,
+        {
+          $pull: { subcategory_ids: subcategory._id, product_ids: { $in: productIds } },
+          $inc: { subcategory_count: -1, product_count: -productIds.length },
+          $set: { updated_at: new Date() }
+        } as any,
+        { session }
+      );
+
+      // ...and put them on the new one
+      await db.collection('categories').updateOne(
+        { _id: targetCategory._id } as any,
+        {
+          $push: { subcategory_ids: subcategory._id, product_ids: { $each: productIds } },
+          $inc: { subcategory_count: 1, product_count: productIds.length },
+          $set: { updated_at: new Date() }
+        } as any,
+        { session }
+      );
+
+      await db.collection('products').updateMany(
+        { subcategory_id: subcategory._id },
+        { $set: { category_id: targetCategory._id, updated_at: new Date() } },
+        { session }
+      );
+
+      return subcategoryProducts;
+    });
+
+    // Images live under the category folder, so they follow the subcategory to its new parent
+    return CategoryService.moveProductImages(products, 0, targetCategory.category_name);
+  }
+
+  static async deleteSubcategory(subcategory: Subcategory): Promise<void> {
+    const db = await getDatabase();
+
+    await withTransaction(async (session) => {
+      await db.collection('subcategories').deleteOne({ _id: subcategory._id } as any, { session });
+
+      await db.collection('categories').updateOne(
+        { _id: subcategory.category_id } as any,
+        {
+          $pull: { subcategory_ids: subcategory._id },
+          $inc: { subcategory_count: -1 },
+          $set: { updated_at: new Date() }
+        } as any,
+        { session }
+      );
+    });
+  }
+
+  static async countProductsInSubcategory(subcategoryId: string): Promise<number> {
+    const db = await getDatabase();
+    return await db.collection('products').countDocuments({ subcategory_id: subcategoryId });
+  }
+}
+
+export default SubcategoryService;
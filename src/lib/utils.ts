@@ -27,3 +27,12 @@ export function truncateText(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text;
   return text.substring(0, maxLength).trim() + '...';
 }
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Splits a search box value into the words that should be matched or highlighted
+export function getSearchTerms(search: string): string[] {
+  return search.toLowerCase().split(/[\s"'`.,;:!?()[\]{}<>\/\\|_+*=&^%$#@~-]+/).filter((term) => term.length > 0);
+}
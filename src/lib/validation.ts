@@ -0,0 +1,189 @@
+import { NextResponse } from 'next/server';
+import { CategoryService } from './category-service';
+import { INITIAL_PRODUCT_STATUSES, PRODUCT_STATUSES } from './product-status';
+import { SubcategoryService } from './subcategory-service';
+import { Category, Subcategory } from '@/types/product';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+interface StringRule {
+  label: string;
+  required?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  oneOf?: readonly string[];
+}
+
+interface StringArrayRule {
+  label: string;
+  type: 'string[]';
+  required?: boolean;
+  minItems?: number;
+  maxItems?: number;
+}
+
+type FieldRule = StringRule | StringArrayRule;
+
+export type Schema = Record<string, FieldRule>;
+
+export type ValidationResult<T> =
+  | { valid: true; data: T }
+  | { valid: false; errors: FieldError[] };
+
+export const productCreateSchema: Schema = {
+  product_name: { label: 'Product name', required: true, minLength: 2, maxLength: 200 },
+  product_title: { label: 'Product title', required: true, maxLength: 300 },
+  product_description: { label: 'Description', required: true, maxLength: 5000 },
+  category_id: { label: 'Category', required: true },
+  subcategory_id: { label: 'Subcategory', required: true },
+  status: { label: 'Status', oneOf: INITIAL_PRODUCT_STATUSES },
+};
+
+export const productUpdateSchema: Schema = {
+  ...productCreateSchema,
+  status: { label: 'Status', oneOf: PRODUCT_STATUSES },
+  image_urls: { label: 'Images', type: 'string[]', minItems: 1, maxItems: 10 },
+};
+
+export const categorySchema: Schema = {
+  category_name: { label: 'Category name', required: true, minLength: 2, maxLength: 100 },
+};
+
+export const subcategorySchema: Schema = {
+  subcategory_name: { label: 'Subcategory name', required: true, minLength: 2, maxLength: 100 },
+  category_id: { label: 'Category', required: true },
+};
+
+function isStringArrayRule(rule: FieldRule): rule is StringArrayRule {
+  return 'type' in rule && rule.type === 'string[]';
+}
+
+function validateField(field: string, value: unknown, rule: FieldRule): FieldError | null {
+  if (isStringArrayRule(rule)) {
+    if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+      return { field, message: `${rule.label} must be a list of strings` };
+    }
+    if (rule.minItems !== undefined && value.length < rule.minItems) {
+      return { field, message: `${rule.label} must have at least ${rule.minItems} item(s)` };
+    }
+    if (rule.maxItems !== undefined && value.length > rule.maxItems) {
+      return { field, message: `${rule.label} can have at most ${rule.maxItems} items` };
+    }
+    return null;
+  }
+
+  if (typeof value !== 'string') {
+    return { field, message: `${rule.label} must be text` };
+  }
+
+  const trimmed = value.trim();
+  if (rule.required && !trimmed) {
+    return { field, message: `${rule.label} is required` };
+  }
+  if (trimmed && rule.minLength !== undefined && trimmed.length < rule.minLength) {
+    return { field, message: `${rule.label} must be at least ${rule.minLength} characters` };
+  }
+  if (rule.maxLength !== undefined && trimmed.length > rule.maxLength) {
+    return { field, message: `${rule.label} must be at most ${rule.maxLength} characters` };
+  }
+  // A blank value is not one of the choices either, even for an optional field
+  if (rule.oneOf && !rule.oneOf.includes(trimmed)) {
+    return { field, message: `${rule.label} must be one of: ${rule.oneOf.join(', ')}` };
+  }
+  return null;
+}
+
+/**
+ * Checks a payload against a schema, rejecting fields the schema does not know.
+ * With `partial`, required fields may be omitted (for updates) but not blanked.
+ * Strings in the returned data are trimmed.
+ */
+export function validatePayload<T = Record<string, unknown>>(
+  payload: unknown,
+  schema: Schema,
+  options: { partial?: boolean } = {}
+): ValidationResult<T> {
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    return { valid: false, errors: [{ field: '_root', message: 'Request body must be an object' }] };
+  }
+
+  const input = payload as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  const data: Record<string, unknown> = {};
+
+  for (const field of Object.keys(input)) {
+    if (!(field in schema)) {
+      errors.push({ field, message: 'Unknown field' });
+    }
+  }
+
+  for (const [field, rule] of Object.entries(schema)) {
+    const value = input[field];
+
+    if (value === undefined) {
+      if (rule.required && !options.partial) {
+        errors.push({ field, message: `${rule.label} is required` });
+      }
+      continue;
+    }
+
+    const error = validateField(field, value, rule);
+    if (error) {
+      errors.push(error);
+    } else {
+      data[field] = typeof value === 'string' ? value.trim() : value;
+    }
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, data: data as T };
+}
+
+/**
+ * Referential integrity for a product's taxonomy: both ids must exist and the
+ * subcategory must belong to the category.
+ */
+export async function validateProductTaxonomy(
+  categoryId: string,
+  subcategoryId: string
+): Promise<{ errors: FieldError[]; category: Category | null; subcategory: Subcategory | null }> {
+  const [category, subcategory] = await Promise.all([
+    CategoryService.getCategoryById(categoryId),
+    SubcategoryService.getSubcategoryById(subcategoryId),
+  ]);
+
+  const errors: FieldError[] = [];
+  if (!category) {
+    errors.push({ field: 'category_id', message: 'Category does not exist' });
+  }
+  if (!subcategory) {
+    errors.push({ field: 'subcategory_id', message: 'Subcategory does not exist' });
+  } else if (category && subcategory.category_id !== category._id) {
+    errors.push({ field: 'subcategory_id', message: 'Subcategory does not belong to the selected category' });
+  }
+
+  return { errors, category, subcategory };
+}
+
+export function validationErrorResponse(errors: FieldError[]) {
+  return NextResponse.json(
+    { success: false, error: errors[0]?.message || 'Validation failed', errors },
+    { status: 400 }
+  );
+}
+
+/**
+ * Parses a JSON request body. Malformed JSON or anything but an object gives `error`, a 400 to
+ * return as is, rather than an exception that would surface as a 500.
+ */
+export async function readJsonBody(
+  request: Request
+): Promise<{ body: Record<string, any>; error?: undefined } | { body?: undefined; error: NextResponse }> {
+  const body: unknown = await request.json().catch(() => undefined);
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { error: validationErrorResponse([{ field: '_root', message: 'Request body must be a JSON object' }]) };
+  }
+  return { body: body as Record<string, any> };
+}
@@ -1,3 +1,5 @@
+export type ProductStatus = 'draft' | 'active' | 'inactive' | 'archived';
+
 export interface Product {
   _id: string;
   product_id: string;
@@ -8,9 +10,10 @@ export interface Product {
   image_count: number;
   subcategory_id: string;
   category_id: string;
-  status: 'active' | 'inactive';
+  status: ProductStatus;
   created_at: Date;
   updated_at: Date;
+  deleted_at?: Date | null;
 }
 
 export interface Category {
@@ -52,6 +55,7 @@ export interface ProductFormData {
   product_description: string;
   category_id: string;
   subcategory_id: string;
+  status?: ProductStatus;
   images: File[];
 }
 
@@ -64,3 +68,131 @@ export interface IdConvention {
   example: string;
   created_at: Date;
 }
+
+export type AdminProfile = Omit<Admin, 'password'>;
+
+export interface AdminSession {
+  _id: string;
+  admin_id: string;
+  created_at: Date;
+  expires_at: Date;
+}
+
+export interface AdminFormData {
+  username: string;
+  password: string;
+  email: string;
+  role: string;
+  permissions: string[];
+  is_active: boolean;
+}
+
+export type AdminUpdateData = Partial<Pick<Admin, 'email' | 'role' | 'permissions' | 'is_active'>>;
+
+export type ProductSnapshot = Pick<
+  Product,
+  'product_name' | 'product_title' | 'product_description' | 'category_id' | 'subcategory_id' | 'status' | 'image_urls'
+>;
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface ProductRevision {
+  _id: string;
+  product_id: string;
+  revision: number;
+  changed_by: {
+    admin_id: string;
+    username: string;
+  };
+  changed_at: Date;
+  changes: Partial<Record<keyof ProductSnapshot, FieldChange>>;
+  snapshot: ProductSnapshot;
+}
+
+export type AuditTargetType = 'product' | 'category' | 'subcategory' | 'admin' | 'auth';
+
+export interface AuditLogEntry {
+  _id: string;
+  admin_id: string | null;
+  admin_username: string | null;
+  action: string;
+  target_type: AuditTargetType;
+  target_id: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  ip: string | null;
+  created_at: Date;
+}
+
+/** One spreadsheet row of a product import, with headers already mapped to these keys */
+export interface ImportRowInput {
+  row: number;
+  product_name: string;
+  product_title: string;
+  product_description: string;
+  category: string;
+  category_id: string;
+  subcategory: string;
+  subcategory_id: string;
+  image_urls: string[];
+}
+
+export interface ImportRowResult {
+  row: number;
+  input: ImportRowInput;
+  errors: { field: string; message: string }[];
+  category_name?: string;
+  subcategory_name?: string;
+  product_id?: string;
+}
+
+export type ProductSummary = Pick<
+  Product,
+  '_id' | 'product_name' | 'category_id' | 'status' | 'image_urls' | 'created_at' | 'updated_at'
+>;
+
+/** A stored product_count next to the number of products that actually reference the parent */
+export interface CountCheck {
+  _id: string;
+  name: string;
+  product_count: number;
+  actual_count: number;
+}
+
+export interface CatalogueStats {
+  total: number;
+  by_status: Record<ProductStatus, number>;
+  categories: (CountCheck & { subcategories: CountCheck[] })[];
+  recently_created: ProductSummary[];
+  recently_updated: ProductSummary[];
+  single_image: { total: number; products: ProductSummary[] };
+  // One entry per day (YYYY-MM-DD, UTC), oldest first, days without products included
+  created_per_day: { date: string; count: number }[];
+}
+
+export type DiscrepancyKind =
+  | 'wrong_count'      // a stored count differs from what the products/subcategories add up to
+  | 'missing_id'       // a child references the parent, but the parent does not list it
+  | 'dangling_id'      // the parent lists an id that is missing, trashed or belongs elsewhere
+  | 'missing_parent'   // a product or subcategory points at a category/subcategory that does not exist
+  | 'parent_mismatch'; // a product's subcategory belongs to a different category
+
+export interface Discrepancy {
+  kind: DiscrepancyKind;
+  target_type: 'product' | 'category' | 'subcategory';
+  target_id: string;
+  message: string;
+  // Counter and id-list problems can be recomputed; broken product references need an edit
+  fixable: boolean;
+}
+
+export interface ReconcileReport {
+  checked: { products: number; categories: number; subcategories: number };
+  discrepancies: Discrepancy[];
+  // Number of categories/subcategories rewritten; always 0 for a check without repair
+  repaired: number;
+  checked_at: Date;
+}